@@ -3,7 +3,7 @@ import {
   createContainer,
   createDreams,
   createMemory,
-  createMemoryStore,
+  createKeyedMutex,
   createVectorStore,
 } from "@daydreamsai/core";
 import { chat } from "./chat";
@@ -23,31 +23,73 @@ export const openai = createOpenAI({
   apiKey: import.meta.env.VITE_OPENAI_API_KEY,
 });
 
-const browserStorage = (): MemoryStore => {
-  const memoryStore = createMemoryStore();
-  return {
-    async get<T>(key: string) {
-      let data = await memoryStore.get<T>(key);
-      if (data === null) {
-        const local = localStorage.getItem(key);
-        if (local) {
-          data = JSON.parse(local);
-          await memoryStore.set(key, data);
-        }
+const browserStorage = (prefix = "dreams:"): MemoryStore => {
+  const exclusive = createKeyedMutex();
+
+  function read<T>(key: string): T | null {
+    const local = localStorage.getItem(prefix + key);
+    if (local !== null) return JSON.parse(local);
+
+    // Entries written before the prefix are moved on first read
+    const legacy = localStorage.getItem(key);
+    if (legacy === null) return null;
+
+    localStorage.setItem(prefix + key, legacy);
+    localStorage.removeItem(key);
+    return JSON.parse(legacy);
+  }
+
+  function remove(key: string) {
+    localStorage.removeItem(prefix + key);
+    localStorage.removeItem(key);
+  }
+
+  function write(key: string, value: unknown) {
+    localStorage.setItem(prefix + key, JSON.stringify(value));
+  }
+
+  function keys(keyPrefix = "") {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix + keyPrefix)) {
+        keys.push(key.slice(prefix.length));
       }
+    }
+    return keys;
+  }
 
-      return data;
+  return {
+    async get<T>(key: string) {
+      return read<T>(key);
     },
     async set(key, value) {
-      localStorage.setItem(key, JSON.stringify(value));
-      return memoryStore.set(key, value);
+      write(key, value);
     },
     async clear() {
-      // localStorage.
-      return memoryStore.clear();
+      for (const key of keys()) localStorage.removeItem(prefix + key);
     },
     async delete(key) {
-      return memoryStore.delete(key);
+      remove(key);
+    },
+    async keys(keyPrefix) {
+      return keys(keyPrefix);
+    },
+    async getMany<T>(keys: string[]) {
+      return keys.map((key) => read<T>(key));
+    },
+    async setMany(entries) {
+      for (const [key, value] of entries) write(key, value);
+    },
+    async deleteMany(keys) {
+      for (const key of keys) remove(key);
+    },
+    update<T>(key: string, fn: (value: T | null) => T | Promise<T>) {
+      return exclusive(key, async () => {
+        const value = await fn(read<T>(key));
+        write(key, value);
+        return value;
+      });
     },
   };
 };
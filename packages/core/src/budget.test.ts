@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import { MockLanguageModelV1 } from "ai/test";
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  fitPrompt,
+  getModelContextWindow,
+  type FittedPromptSections,
+} from "./budget";
+import type { TokenBudget } from "./types";
+
+type Items = {
+  contexts: string;
+  actions: string;
+  outputs: string;
+  updates: string;
+  history: string;
+};
+
+const format = (item: string) => item;
+
+// Every item counts as one token
+const countTokens = (text: string) => text.split(" ").filter(Boolean).length;
+
+function render(sections: FittedPromptSections<Items>) {
+  return Object.values(sections)
+    .flatMap(({ fixed, items, summary }) => [
+      ...fixed,
+      ...(summary ? [summary] : []),
+      ...items,
+    ])
+    .join(" ");
+}
+
+function createModel(modelId = "mock-model", summary = "summary") {
+  return new MockLanguageModelV1({
+    modelId,
+    doGenerate: async () => ({
+      text: summary,
+      finishReason: "stop",
+      usage: { promptTokens: 1, completionTokens: 1 },
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }),
+  });
+}
+
+async function fit(
+  budget: TokenBudget,
+  model = createModel(),
+  updates: string[] = []
+) {
+  return fitPrompt<Items>({
+    model,
+    budget: { reservedTokens: 0, countTokens, ...budget },
+    sections: {
+      contexts: { items: ["c1", "c2"], fixed: ["main"], format, summary: true },
+      actions: { items: ["a1", "a2"], format },
+      outputs: { items: ["o1"], format },
+      updates: { items: ["u1", "u2"], fixed: updates, format, summary: true },
+      history: { items: ["h1", "h2", "h3", "h4"], format, summary: true },
+    },
+    render,
+  });
+}
+
+describe("getModelContextWindow", () => {
+  it("should look up known models", () => {
+    expect(getModelContextWindow(createModel("gpt-4o-mini"))).toBe(128_000);
+    expect(getModelContextWindow(createModel("gpt-4"))).toBe(8_192);
+    expect(
+      getModelContextWindow(createModel("anthropic/claude-3.5-sonnet"))
+    ).toBe(200_000);
+    expect(getModelContextWindow(createModel("unknown"))).toBe(
+      DEFAULT_CONTEXT_WINDOW
+    );
+  });
+});
+
+describe("fitPrompt", () => {
+  it("should keep prompts that fit", async () => {
+    const { sections, breakdown } = await fit({ contextWindow: 100 });
+
+    expect(sections.history.items).toEqual(["h1", "h2", "h3", "h4"]);
+    expect(breakdown.total).toBe(12);
+    expect(breakdown.reduced).toEqual({});
+    expect(breakdown.sections).toEqual({
+      instructions: 0,
+      contexts: 3,
+      actions: 2,
+      outputs: 1,
+      updates: 2,
+      history: 4,
+    });
+  });
+
+  it("should truncate the oldest items of the lowest priority first", async () => {
+    const { sections, breakdown } = await fit({ contextWindow: 7 });
+
+    expect(sections.history.items).toEqual([]);
+    expect(sections.contexts.items).toEqual(["c2"]);
+    expect(sections.contexts.fixed).toEqual(["main"]);
+    expect(sections.updates.items).toEqual(["u1", "u2"]);
+    expect(breakdown.total).toBe(7);
+    expect(breakdown.reduced).toEqual({
+      history: { strategy: "truncate", removed: 4 },
+      contexts: { strategy: "truncate", removed: 1 },
+    });
+  });
+
+  it("should follow the configured priorities and strategies", async () => {
+    const { sections, breakdown } = await fit({
+      contextWindow: 8,
+      sections: {
+        actions: { priority: 0, strategy: "drop" },
+      },
+    });
+
+    expect(sections.actions.items).toEqual([]);
+    expect(sections.history.items).toEqual(["h3", "h4"]);
+    expect(breakdown.reduced).toEqual({
+      actions: { strategy: "drop", removed: 2 },
+      history: { strategy: "truncate", removed: 2 },
+    });
+  });
+
+  it("should summarize removed items", async () => {
+    const { sections, breakdown } = await fit({
+      contextWindow: 10,
+      summaryTokens: 1,
+      sections: { history: { strategy: "summarize" } },
+    });
+
+    expect(sections.history).toEqual({
+      items: ["h4"],
+      fixed: [],
+      summary: "summary",
+    });
+    expect(breakdown.total).toBe(10);
+    expect(breakdown.reduced).toEqual({
+      history: { strategy: "summarize", removed: 3 },
+    });
+  });
+
+  it("should summarize with the given summarizer", async () => {
+    const model = createModel();
+    const summaries: string[] = [];
+
+    const { sections } = await fitPrompt<Items>({
+      model,
+      budget: {
+        reservedTokens: 0,
+        countTokens,
+        contextWindow: 10,
+        summaryTokens: 1,
+        sections: { history: { strategy: "summarize" } },
+      },
+      sections: {
+        contexts: { items: [], fixed: ["main"], format },
+        actions: { items: ["a1", "a2"], format },
+        outputs: { items: ["o1"], format },
+        updates: { items: [], format },
+        history: {
+          items: ["h1", "h2", "h3", "h4", "h5", "h6", "h7", "h8"],
+          format,
+          summary: true,
+        },
+      },
+      render,
+      summarize: async ({ model: summaryModel, section, text, maxTokens }) => {
+        expect(summaryModel).toBe(model);
+        summaries.push(`${section}:${text}:${maxTokens}`);
+        return "queued";
+      },
+    });
+
+    expect(summaries).toEqual(["history:h1\nh2\nh3:1"]);
+    expect(sections.history.summary).toBe("queued");
+  });
+
+  it("should summarize updates after the history and keep inputs", async () => {
+    const { sections, breakdown } = await fit(
+      { contextWindow: 7, summaryTokens: 1 },
+      createModel(),
+      ["i1", "i2"]
+    );
+
+    expect(sections.updates).toEqual({
+      items: [],
+      fixed: ["i1", "i2"],
+      summary: "summary",
+    });
+    expect(breakdown.reduced).toEqual({
+      history: { strategy: "truncate", removed: 4 },
+      contexts: { strategy: "truncate", removed: 2 },
+      updates: { strategy: "summarize", removed: 2 },
+    });
+  });
+
+  it("should truncate sections without a summary", async () => {
+    const { breakdown } = await fit({
+      contextWindow: 11,
+      sections: {
+        outputs: { priority: 0, strategy: "summarize" },
+      },
+    });
+
+    expect(breakdown.reduced).toEqual({
+      outputs: { strategy: "truncate", removed: 1 },
+    });
+  });
+});
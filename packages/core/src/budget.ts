@@ -0,0 +1,315 @@
+import { generateText, type LanguageModelV1 } from "ai";
+import type {
+  BudgetedPromptSection,
+  BudgetStrategy,
+  PromptSectionBudget,
+  PromptTokenBreakdown,
+  TokenBudget,
+} from "./types";
+import type { Logger } from "./logger";
+
+/** Context window used for models missing from the known models */
+export const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+const DEFAULT_RESERVED_TOKENS = 4096;
+const DEFAULT_SUMMARY_TOKENS = 512;
+
+/**
+ * Context windows of known models, matched in order against the model id.
+ */
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/gpt-4\.1/, 1_047_576],
+  [/gpt-4o|gpt-4-turbo|gpt-4-\d{4}-preview|gpt-4\.5/, 128_000],
+  [/gpt-4-32k/, 32_768],
+  [/gpt-4/, 8_192],
+  [/gpt-3\.5-turbo/, 16_385],
+  [/(^|\/)o\d/, 200_000],
+  [/claude/, 200_000],
+  [/gemini-1\.5-pro/, 2_097_152],
+  [/gemini/, 1_048_576],
+  [/deepseek/, 64_000],
+  [/llama-?3\.[1-3]/, 128_000],
+  [/grok/, 131_072],
+  [/mistral-large|mistral-small|codestral/, 128_000],
+];
+
+/**
+ * Default priority and strategy of each section, sections with a lower
+ * priority are reduced first. The history goes first, and removed updates are
+ * summarized since they are marked processed once sent.
+ */
+const DEFAULT_SECTIONS: Record<
+  BudgetedPromptSection,
+  Required<PromptSectionBudget>
+> = {
+  history: { priority: 10, strategy: "truncate" },
+  contexts: { priority: 20, strategy: "truncate" },
+  updates: { priority: 30, strategy: "summarize" },
+  actions: { priority: 40, strategy: "truncate" },
+  outputs: { priority: 50, strategy: "truncate" },
+};
+
+/**
+ * Looks up the context window of a model from its id
+ * @param model - The language model
+ * @returns The context window in tokens
+ */
+export function getModelContextWindow(model: LanguageModelV1) {
+  const id = model.modelId.toLowerCase();
+  return (
+    MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(id))?.[1] ??
+    DEFAULT_CONTEXT_WINDOW
+  );
+}
+
+/**
+ * Estimates the number of tokens of a text, at about 4 characters per token
+ * @param text - The text to measure
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Items of a prompt section
+ */
+export type PromptSectionInput<T> = {
+  /** Items that can be removed, ordered from oldest to newest */
+  items: T[];
+  /** Items that are always kept */
+  fixed?: T[];
+  format: (item: T) => string;
+  /** Whether the section renders a summary, it is truncated otherwise */
+  summary?: boolean;
+};
+
+/**
+ * Items of a section kept in the prompt
+ */
+export type FittedPromptSection<T> = {
+  items: T[];
+  fixed: T[];
+  summary?: string;
+};
+
+type SectionItems = Record<BudgetedPromptSection, unknown>;
+
+export type PromptSectionInputs<T extends SectionItems> = {
+  [K in BudgetedPromptSection]: PromptSectionInput<T[K]>;
+};
+
+export type FittedPromptSections<T extends SectionItems> = {
+  [K in BudgetedPromptSection]: FittedPromptSection<T[K]>;
+};
+
+/** Summarizes the items removed from a prompt section */
+export type PromptSummarizer = (params: {
+  model: LanguageModelV1;
+  section: BudgetedPromptSection;
+  text: string;
+  maxTokens: number;
+}) => Promise<string>;
+
+/**
+ * Summarizes the items removed from a prompt section with a model
+ * @param options.model - The model writing the summary
+ * @param options.section - Name of the section
+ * @param options.text - The removed items
+ * @param options.maxTokens - Maximum length of the summary
+ * @param options.abortSignal - Optional signal to cancel the generation
+ * @returns The summary
+ */
+export async function summarizePromptSection({
+  model,
+  section,
+  text,
+  maxTokens,
+  abortSignal,
+}: Parameters<PromptSummarizer>[0] & { abortSignal?: AbortSignal }) {
+  const { text: summary } = await generateText({
+    model,
+    maxTokens,
+    abortSignal,
+    prompt: `
+Summarize the following ${section} of an AI agent prompt in less than ${maxTokens} tokens.
+Keep names, identifiers, decisions, open requests and results the agent still needs, leave out anything else.
+Only respond with the summary.
+
+<${section}>
+${text}
+</${section}>
+`,
+  });
+
+  return summary.trim();
+}
+
+/**
+ * Fits the sections of a prompt in the context window of the model. When
+ * the prompt overflows, sections are reduced by their strategy from the
+ * lowest priority up until it fits.
+ * @param options.model - The model the prompt is sent to
+ * @param options.budget - The token budget
+ * @param options.sections - Items of each section
+ * @param options.render - Renders all text sent to the model, like the
+ * prompt and tool definitions, from the kept items
+ * @param options.logger - Optional logger, warns when the prompt cannot fit
+ * @param options.summarize - Summarizes removed items, defaults to calling
+ * the summary model directly
+ * @returns The kept items of each section and the token breakdown
+ */
+export async function fitPrompt<T extends SectionItems>({
+  model,
+  budget = {},
+  sections,
+  render,
+  logger,
+  summarize = summarizePromptSection,
+}: {
+  model: LanguageModelV1;
+  budget?: TokenBudget;
+  sections: PromptSectionInputs<T>;
+  render: (sections: FittedPromptSections<T>) => string;
+  logger?: Logger;
+  summarize?: PromptSummarizer;
+}): Promise<{
+  sections: FittedPromptSections<T>;
+  breakdown: PromptTokenBreakdown;
+}> {
+  const countTokens = budget.countTokens ?? estimateTokens;
+  const contextWindow = budget.contextWindow ?? getModelContextWindow(model);
+  const reservedTokens = Math.min(
+    budget.reservedTokens ?? DEFAULT_RESERVED_TOKENS,
+    Math.floor(contextWindow / 2)
+  );
+  const summaryTokens = budget.summaryTokens ?? DEFAULT_SUMMARY_TOKENS;
+  const available = contextWindow - reservedTokens;
+
+  const names = Object.keys(DEFAULT_SECTIONS) as BudgetedPromptSection[];
+
+  const settings = Object.fromEntries(
+    names.map((name) => [
+      name,
+      { ...DEFAULT_SECTIONS[name], ...budget.sections?.[name] },
+    ])
+  ) as Record<BudgetedPromptSection, Required<PromptSectionBudget>>;
+
+  const fitted = Object.fromEntries(
+    names.map((name) => [
+      name,
+      { items: sections[name].items, fixed: sections[name].fixed ?? [] },
+    ])
+  ) as FittedPromptSections<T>;
+
+  let total = countTokens(render(fitted));
+
+  const reduced: PromptTokenBreakdown["reduced"] = {};
+
+  function measure(
+    name: BudgetedPromptSection,
+    removed: number,
+    summary?: string
+  ) {
+    fitted[name] = {
+      items: sections[name].items.slice(removed),
+      fixed: sections[name].fixed ?? [],
+      summary,
+    };
+    total = countTokens(render(fitted));
+    return total;
+  }
+
+  const order = [...names].sort(
+    (a, b) => settings[a].priority - settings[b].priority
+  );
+
+  for (const name of order) {
+    if (total <= available) break;
+
+    const section = sections[name];
+    const count = section.items.length;
+    if (count === 0) continue;
+
+    let strategy: BudgetStrategy = settings[name].strategy;
+    if (strategy === "summarize" && !section.summary) strategy = "truncate";
+
+    if (strategy === "drop") {
+      measure(name, count);
+      reduced[name] = { strategy, removed: count };
+      continue;
+    }
+
+    // Room for the summary replacing the removed items
+    const limit = available - (strategy === "summarize" ? summaryTokens : 0);
+
+    // Smallest number of oldest items to remove for the prompt to fit
+    let low = 1;
+    let high = count;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (measure(name, mid) <= limit) high = mid;
+      else low = mid + 1;
+    }
+
+    let summary: string | undefined;
+
+    if (strategy === "summarize") {
+      try {
+        summary = await summarize({
+          model: budget.summaryModel ?? model,
+          section: name,
+          text: section.items.slice(0, low).map(section.format).join("\n"),
+          maxTokens: summaryTokens,
+        });
+      } catch (error) {
+        logger?.warn("agent:budget", `Failed to summarize ${name}`, {
+          error,
+        });
+      }
+    }
+
+    measure(name, low, summary);
+    reduced[name] = { strategy, removed: low };
+  }
+
+  if (total > available) {
+    logger?.warn("agent:budget", "Prompt exceeds the context window", {
+      model: model.modelId,
+      total,
+      available,
+    });
+  }
+
+  const sectionTokens = Object.fromEntries(
+    names.map((name) => {
+      const { items, fixed, summary } = fitted[name];
+      const format = sections[name].format as (item: unknown) => string;
+      return [
+        name,
+        [...fixed, ...items].reduce<number>(
+          (tokens, item) => tokens + countTokens(format(item)),
+          summary ? countTokens(summary) : 0
+        ),
+      ];
+    })
+  ) as Record<BudgetedPromptSection, number>;
+
+  const breakdown: PromptTokenBreakdown = {
+    model: model.modelId,
+    contextWindow,
+    available,
+    total,
+    sections: {
+      instructions: Math.max(
+        total -
+          Object.values(sectionTokens).reduce((sum, tokens) => sum + tokens, 0),
+        0
+      ),
+      ...sectionTokens,
+    },
+    reduced,
+  };
+
+  return { sections: fitted, breakdown };
+}
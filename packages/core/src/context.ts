@@ -1,7 +1,8 @@
 import { z } from "zod";
 import type { Context, WorkingMemory } from "./types";
-import { formatContextLog } from "./formatters";
+import { formatContextLog, formatEpisode } from "./formatters";
 import { memory } from "./utils";
+import { formatXml } from "./xml";
 
 /**
  * Creates a context configuration
@@ -44,7 +45,8 @@ export function getWorkingMemoryLogs(
 }
 
 /**
- * Default renderer for context logs
+ * Default renderer for context logs, the summary of older logs and the
+ * recalled episodes are rendered ahead of the recent logs
  * @param options - Options containing the working memory
  * @param options.memory - Working memory to render
  * @returns Formatted context logs
@@ -54,9 +56,20 @@ export function defaultContextRender({
 }: {
   memory: Partial<WorkingMemory>;
 }) {
-  return getWorkingMemoryLogs(memory, false)
-    .map((i) => formatContextLog(i))
-    .flat();
+  // Episodes saved by older versions are plain strings
+  const episodes = (memory.episodicMemory?.episodes ?? []).filter(
+    (episode) => typeof episode === "object"
+  );
+
+  return [
+    memory.summary
+      ? formatXml({ tag: "summary", content: memory.summary })
+      : [],
+    episodes.length > 0
+      ? formatXml({ tag: "episodes", content: episodes.map(formatEpisode) })
+      : [],
+    getWorkingMemoryLogs(memory, false).map((i) => formatContextLog(i)),
+  ].flat(2);
 }
 
 /**
@@ -0,0 +1,1459 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { MockLanguageModelV1, simulateReadableStream } from "ai/test";
+import { createDreams } from "./dreams";
+import { context } from "./context";
+import { toolCallingProtocol } from "./protocols";
+import { action, extension, memory } from "./utils";
+import {
+  createMemory,
+  createMemoryStore,
+  createVectorStore,
+} from "./memory/base";
+import {
+  createInMemoryContextLock,
+  createMemoryStoreContextLock,
+  type ContextLock,
+} from "./lock";
+import {
+  LogLevel,
+  type AnyAction,
+  type AnyContext,
+  type MemoryStore,
+  type WorkingMemory,
+} from "./types";
+import pDefer from "p-defer";
+
+// Calls the `visit` action, then ends the run, for each run
+function createModel(prompts: string[]) {
+  let calls = 0;
+  return new MockLanguageModelV1({
+    doStream: async ({ prompt }) => {
+      prompts.push(JSON.stringify(prompt));
+      const text =
+        calls++ % 2 === 0
+          ? `<response><action_call name="visit">{}</action_call></response>`
+          : `<response><reasoning>done</reasoning><finalize/></response>`;
+
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            { type: "text-delta" as const, textDelta: text },
+            {
+              type: "finish" as const,
+              finishReason: "stop" as const,
+              usage: { promptTokens: 1, completionTokens: 1 },
+            },
+          ],
+        }),
+        rawCall: { rawPrompt: null, rawSettings: {} },
+      };
+    },
+  });
+}
+
+// Answers each model call with the next response
+function createResponseModel(responses: string[], prompts: string[] = []) {
+  let calls = 0;
+  return new MockLanguageModelV1({
+    doStream: async ({ prompt }) => {
+      prompts.push(JSON.stringify(prompt));
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            {
+              type: "text-delta" as const,
+              textDelta: responses[calls++ % responses.length],
+            },
+            {
+              type: "finish" as const,
+              finishReason: "stop" as const,
+              usage: { promptTokens: 1, completionTokens: 1 },
+            },
+          ],
+        }),
+        rawCall: { rawPrompt: null, rawSettings: {} },
+      };
+    },
+  });
+}
+
+const guild = context({
+  type: "guild",
+  schema: z.object({ guildId: z.string() }),
+  key: ({ guildId }) => guildId,
+  create: () => ({ visits: 0 }),
+  render: ({ memory }) => `guild visits: ${memory.visits}`,
+});
+
+const profile = context({
+  type: "profile",
+  schema: z.object({ userId: z.string(), guildId: z.string() }),
+  key: ({ userId }) => userId,
+  create: () => ({ visits: 0 }),
+  render: ({ memory }) => `profile visits: ${memory.visits}`,
+  // The guild is also used by the channel, it is loaded once
+  use: ({ args }) => [{ context: guild, args: { guildId: args.guildId } }],
+});
+
+const channel = context({
+  type: "channel",
+  schema: z.object({ channelId: z.string(), userId: z.string() }),
+  key: ({ channelId }) => channelId,
+  use: ({ args }) => [
+    { context: guild, args: { guildId: "dojo" } },
+    {
+      name: "user",
+      context: profile,
+      args: { userId: args.userId, guildId: "dojo" },
+    },
+  ],
+});
+
+// Returns copies of the values like stores that serialize them, writes take
+// a while so that runs overlapping each other would lose changes
+function createCopyingStore(): MemoryStore {
+  const store = createMemoryStore();
+  const wait = () => new Promise((resolve) => setTimeout(resolve, 20));
+  return {
+    ...store,
+    get: async (key) => structuredClone(await store.get(key)),
+    set: async (key, value) => {
+      await wait();
+      await store.set(key, value);
+    },
+  };
+}
+
+function setup(store: MemoryStore = createMemoryStore()) {
+  const prompts: string[] = [];
+  const seen: Record<string, string>[] = [];
+
+  const agent = createDreams({
+    model: createModel(prompts),
+    logger: LogLevel.ERROR,
+    memory: createMemory(store, createVectorStore()),
+    context: context({
+      type: "assistant",
+      schema: z.object({}),
+      create: () => ({ visits: 0 }),
+    }),
+    actions: [
+      action({
+        name: "visit",
+        schema: z.object({}),
+        handler: async (_call, ctx) => {
+          seen.push(
+            Object.fromEntries(
+              Object.entries(ctx.contexts).map(([name, state]) => [
+                name,
+                state.id,
+              ])
+            )
+          );
+          for (const state of Object.values(ctx.contexts)) {
+            (state.memory as { visits: number }).visits++;
+          }
+          return {};
+        },
+      }),
+    ],
+  });
+
+  return { agent, store, prompts, seen };
+}
+
+describe("context composition", () => {
+  it("should load, render and save used contexts", async () => {
+    const { agent, store, prompts, seen } = setup();
+    await agent.start({});
+
+    await agent.run({
+      context: channel,
+      args: { channelId: "general", userId: "alice" },
+    });
+
+    expect(seen).toEqual([
+      {
+        agent: "assistant",
+        guild: "guild:dojo",
+        user: "profile:alice",
+      },
+    ]);
+
+    expect(prompts[0]).toContain("guild visits: 0");
+    expect(prompts[0]).toContain("profile visits: 0");
+    expect(prompts[1]).toContain("guild visits: 1");
+
+    expect(await store.get("assistant")).toEqual({ visits: 1 });
+    expect(await store.get("guild:dojo")).toEqual({ visits: 1 });
+    expect(await store.get("profile:alice")).toEqual({ visits: 1 });
+  });
+
+  it("should share used contexts between runs", async () => {
+    const { agent, store } = setup();
+    await agent.start({});
+
+    await agent.run({
+      context: channel,
+      args: { channelId: "general", userId: "alice" },
+    });
+    await agent.run({
+      context: channel,
+      args: { channelId: "random", userId: "bob" },
+    });
+
+    expect(await store.get("guild:dojo")).toEqual({ visits: 2 });
+    expect(await store.get("profile:alice")).toEqual({ visits: 1 });
+    expect(await store.get("profile:bob")).toEqual({ visits: 1 });
+  });
+
+  it("should run contexts sharing a used context one at a time", async () => {
+    const { agent, store, seen } = setup(createCopyingStore());
+    await agent.start({});
+
+    await Promise.all([
+      agent.run({
+        context: channel,
+        args: { channelId: "general", userId: "alice" },
+      }),
+      agent.run({
+        context: channel,
+        args: { channelId: "random", userId: "bob" },
+      }),
+    ]);
+
+    expect(seen).toHaveLength(2);
+    expect(await store.get("assistant")).toEqual({ visits: 2 });
+    expect(await store.get("guild:dojo")).toEqual({ visits: 2 });
+    expect(await store.get("profile:alice")).toEqual({ visits: 1 });
+    expect(await store.get("profile:bob")).toEqual({ visits: 1 });
+  });
+
+  it("should reject two contexts with the same name", async () => {
+    const { agent } = setup();
+    await agent.start({});
+
+    const conflicting = context({
+      type: "conflicting",
+      schema: z.object({}),
+      use: [
+        { context: guild, args: { guildId: "a" } },
+        { context: guild, args: { guildId: "b" } },
+      ],
+    });
+
+    await expect(agent.run({ context: conflicting, args: {} })).rejects.toThrow(
+      'Context name "guild" is used by guild:a and guild:b'
+    );
+  });
+});
+
+describe("context scoped actions, outputs and inputs", () => {
+  const counter = context({
+    type: "counter",
+    schema: z.object({ id: z.string() }),
+    key: ({ id }) => id,
+    create: () => ({ count: 0, messages: [] as string[] }),
+    inputs: {
+      "counter:message": {
+        schema: z.object({ text: z.string() }),
+        format: ({ text }) => `message: ${text}`,
+      },
+    },
+    actions: [
+      {
+        name: "visit",
+        schema: z.object({}),
+        handler: async (_call, ctx) => {
+          ctx.memory.count++;
+          return { count: ctx.memory.count };
+        },
+      },
+    ],
+    outputs: {
+      reply: {
+        schema: z.string(),
+        handler: (text, ctx) => {
+          ctx.memory.messages.push(text);
+        },
+      },
+    },
+  });
+
+  function createCounterModel(prompts: string[]) {
+    let calls = 0;
+    return new MockLanguageModelV1({
+      doStream: async ({ prompt }) => {
+        prompts.push(JSON.stringify(prompt));
+        const text =
+          calls++ % 2 === 0
+            ? `<response><action_call name="visit">{}</action_call></response>`
+            : `<response><output type="reply">hello</output><finalize/></response>`;
+
+        return {
+          stream: simulateReadableStream({
+            chunks: [
+              { type: "text-delta" as const, textDelta: text },
+              {
+                type: "finish" as const,
+                finishReason: "stop" as const,
+                usage: { promptTokens: 1, completionTokens: 1 },
+              },
+            ],
+          }),
+          rawCall: { rawPrompt: null, rawSettings: {} },
+        };
+      },
+    });
+  }
+
+  it("should merge the context definitions into its runs", async () => {
+    const prompts: string[] = [];
+    const store = createMemoryStore();
+    const agent = createDreams({
+      model: createCounterModel(prompts),
+      logger: LogLevel.ERROR,
+      memory: createMemory(store, createVectorStore()),
+    });
+    await agent.start();
+
+    const chain = await agent.send({
+      context: counter,
+      args: { id: "1" },
+      input: { type: "counter:message", data: { text: "hi" } },
+    });
+
+    expect(prompts[0]).toContain('name=\\"visit\\"');
+    expect(prompts[0]).toContain('output name=\\"reply\\"');
+    expect(prompts[0]).toContain("message: hi");
+    expect(chain.find((log) => log.ref === "action_result")?.data).toEqual({
+      count: 1,
+    });
+    expect(await store.get("counter:1")).toEqual({
+      count: 1,
+      messages: ["hello"],
+    });
+  });
+
+  it("should not expose the definitions to other contexts", async () => {
+    const prompts: string[] = [];
+    const agent = createDreams({
+      model: createCounterModel(prompts),
+      logger: LogLevel.ERROR,
+    });
+    await agent.start();
+
+    await expect(
+      agent.send({
+        context: channel,
+        args: { channelId: "general", userId: "alice" },
+        input: { type: "counter:message", data: { text: "hi" } },
+      })
+    ).rejects.toThrow("invalid input");
+
+    await agent.run({
+      context: channel,
+      args: { channelId: "general", userId: "alice" },
+    });
+
+    expect(prompts[0]).not.toContain('name=\\"visit\\"');
+    expect(prompts[0]).not.toContain('output name=\\"reply\\"');
+  });
+});
+
+describe("context lifecycle", () => {
+  function createAgent({
+    store = createMemoryStore(),
+    ...config
+  }: {
+    store?: MemoryStore;
+    expiryInterval?: number;
+    contexts?: Record<string, AnyContext>;
+  } = {}) {
+    const agent = createDreams({
+      model: createModel([]),
+      logger: LogLevel.ERROR,
+      memory: createMemory(store, createVectorStore()),
+      actions: [
+        action({
+          name: "visit",
+          schema: z.object({}),
+          handler: async (_call, ctx) => {
+            ctx.memory.visits++;
+            return {};
+          },
+        }),
+      ],
+      ...config,
+    });
+    return { agent, store };
+  }
+
+  it("should load and save memory with the context functions", async () => {
+    const { agent, store } = createAgent();
+    await agent.start();
+
+    const saved = new Map([["remote:1", { visits: 5 }]]);
+    const remote = context({
+      type: "remote",
+      schema: z.object({ id: z.string() }),
+      key: ({ id }) => id,
+      create: () => ({ visits: 0 }),
+      load: ({ id }) => saved.get(id),
+      save: ({ id, memory }) => {
+        saved.set(id, memory);
+      },
+    });
+
+    await agent.run({ context: remote, args: { id: "1" } });
+    await agent.run({ context: remote, args: { id: "2" } });
+
+    expect(saved.get("remote:1")).toEqual({ visits: 6 });
+    expect(saved.get("remote:2")).toEqual({ visits: 1 });
+    expect(await store.get("remote:1")).toBeNull();
+  });
+
+  it("should call the run, step and error hooks", async () => {
+    const calls: string[] = [];
+    const failing = new MockLanguageModelV1({
+      doStream: async () => {
+        throw new Error("unavailable");
+      },
+    });
+
+    const hooked = context({
+      type: "hooked",
+      schema: z.object({}),
+      create: () => ({ visits: 0 }),
+      onRun: ({ memory }) => {
+        calls.push(`run:${memory.visits}`);
+      },
+      onStep: ({ step, memory }) => {
+        calls.push(`step:${step}:${memory.visits}`);
+      },
+      onError: (error) => {
+        calls.push(`error:${(error as Error).message}`);
+      },
+    });
+
+    const { agent } = createAgent();
+    await agent.start();
+    await agent.run({ context: hooked, args: {} });
+
+    expect(calls).toEqual(["run:0", "step:1:1", "step:2:1"]);
+
+    calls.length = 0;
+    const broken = createDreams({ model: failing, logger: LogLevel.ERROR });
+    await broken.start();
+    await broken.run({ context: hooked, args: {} });
+
+    expect(calls).toEqual(["run:0", "error:unavailable"]);
+  });
+
+  it("should delete and archive contexts", async () => {
+    const destroyed: string[] = [];
+    const chat = context({
+      type: "chat",
+      schema: z.object({ id: z.string() }),
+      key: ({ id }) => id,
+      create: () => ({ visits: 0 }),
+      onDestroy: ({ id, memory }) => {
+        destroyed.push(`${id}:${memory.visits}`);
+      },
+    });
+
+    const { agent, store } = createAgent();
+    const deleteNamespace = vi.spyOn(agent.memory.vector, "deleteNamespace");
+    await agent.start();
+    await agent.run({ context: chat, args: { id: "1" } });
+    await agent.run({ context: chat, args: { id: "2" } });
+
+    await agent.deleteContext("chat:1");
+    await agent.deleteContext("chat:2", { expiry: "archive" });
+
+    expect(destroyed).toEqual(["chat:1:1", "chat:2:1"]);
+    expect(await agent.getContexts()).toEqual([]);
+    expect(await store.get("chat:1")).toBeNull();
+    expect(await store.get("chat:1:working-memory")).toBeNull();
+    expect(await store.get("contexts:chat:1")).toBeNull();
+    expect(await store.get("archive:chat:1")).toBeNull();
+    expect(await store.get("chat:2")).toBeNull();
+    expect(await store.get("archive:chat:2")).toMatchObject({
+      id: "chat:2",
+      type: "chat",
+      args: { id: "2" },
+      memory: { visits: 1 },
+      workingMemory: { calls: [expect.objectContaining({ name: "visit" })] },
+    });
+    expect(deleteNamespace.mock.calls).toEqual([
+      ["chat:1:episodes"],
+      ["chat:1:archive"],
+      ["chat:2:episodes"],
+      ["chat:2:archive"],
+    ]);
+
+    await expect(agent.deleteContext("chat:1")).rejects.toThrow(
+      "Context not found: chat:1"
+    );
+  });
+
+  it("should delete the vector data of contexts first", async () => {
+    const chat = context({
+      type: "chat",
+      schema: z.object({ id: z.string() }),
+      key: ({ id }) => id,
+      create: () => ({ visits: 0 }),
+    });
+
+    const { agent, store } = createAgent();
+    const deleted: string[] = [];
+    const deleteKey = store.delete.bind(store);
+
+    vi.spyOn(store, "delete").mockImplementation(async (key) => {
+      deleted.push(key);
+      return deleteKey(key);
+    });
+    vi.spyOn(agent.memory.vector, "deleteNamespace").mockImplementation(
+      async (namespace) => {
+        deleted.push(namespace);
+        throw new Error("Legacy vector stores don't support deleteNamespace()");
+      }
+    );
+
+    await agent.start();
+    await agent.run({ context: chat, args: { id: "1" } });
+    await agent.run({ context: chat, args: { id: "2" } });
+    await agent.deleteContext("chat:1");
+
+    expect(deleted.slice(0, 4)).toEqual([
+      "chat:1:episodes",
+      "chat:1:archive",
+      "chat:1",
+      "chat:1:working-memory",
+    ]);
+    expect(await store.get("chat:1")).toBeNull();
+    expect((await agent.getContexts()).map(({ id }) => id)).toEqual(["chat:2"]);
+  });
+
+  it("should recreate contexts run while they are deleted", async () => {
+    const destroying = pDefer<void>();
+    const chat = context({
+      type: "chat",
+      schema: z.object({ id: z.string() }),
+      key: ({ id }) => id,
+      create: () => ({ visits: 0 }),
+      onDestroy: () => destroying.promise,
+    });
+
+    const { agent, store } = createAgent();
+    await agent.start();
+    await agent.run({ context: chat, args: { id: "1" } });
+    await agent.run({ context: chat, args: { id: "2" } });
+
+    const deleted = agent.deleteContext("chat:1");
+    const run = agent.run({ context: chat, args: { id: "1" } });
+    destroying.resolve();
+    await Promise.all([deleted, run]);
+
+    expect(await store.get("chat:1")).toEqual({ visits: 1 });
+    expect(await agent.getContexts()).toEqual([
+      expect.objectContaining({ id: "chat:2" }),
+      expect.objectContaining({ id: "chat:1" }),
+    ]);
+    expect(await store.get("contexts:chat:1")).toMatchObject({ type: "chat" });
+  });
+
+  it("should expire idle contexts", async () => {
+    const expired: string[] = [];
+    const idle = context({
+      type: "idle",
+      schema: z.object({}),
+      create: () => ({ visits: 0 }),
+      maxIdle: 20,
+    });
+
+    const { agent, store } = createAgent({ expiryInterval: 5 });
+    agent.on("context:destroyed", ({ contextId, reason }) => {
+      expired.push(`${contextId}:${reason}`);
+    });
+
+    await agent.start();
+    await agent.run({ context: idle, args: {} });
+
+    expect(await store.get("idle")).toEqual({ visits: 1 });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await agent.stop();
+
+    expect(expired).toEqual(["idle:expired"]);
+    expect(await store.get("idle")).toBeNull();
+  });
+
+  it("should expire contexts run by other agents", async () => {
+    const idle = context({
+      type: "idle",
+      schema: z.object({}),
+      create: () => ({ visits: 0 }),
+      maxIdle: 20,
+    });
+
+    const store = createMemoryStore({ shared: false });
+    const { agent } = createAgent({ store });
+    const { agent: other } = createAgent({
+      store,
+      expiryInterval: 5,
+      contexts: { idle },
+    });
+
+    await agent.start();
+    await other.start();
+    await agent.run({ context: idle, args: {} });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await other.stop();
+    await agent.stop();
+
+    expect(await store.get("idle")).toBeNull();
+    expect(await store.get("contexts:idle")).toBeNull();
+  });
+
+  it("should migrate the contexts saved under one key", async () => {
+    const store = createMemoryStore({ shared: false });
+    await store.set("contexts", [
+      ["chat:1", { type: "chat", args: { id: "1" } }],
+    ]);
+
+    const { agent } = createAgent({ store });
+    await agent.start();
+
+    expect(await agent.getContexts()).toEqual([
+      expect.objectContaining({ id: "chat:1", type: "chat" }),
+    ]);
+    expect(await store.get("contexts")).toBeNull();
+    expect(await store.get("contexts:chat:1")).toEqual({
+      type: "chat",
+      args: { id: "1" },
+    });
+  });
+});
+
+describe("context locking", () => {
+  it("should run a context on one agent at a time", async () => {
+    const store = createMemoryStore({ shared: false });
+    const lock = createMemoryStoreContextLock(store);
+    const events: string[] = [];
+
+    const agents = ["a", "b"].map((name) => {
+      const agent = createDreams({
+        model: createModel([]),
+        logger: LogLevel.ERROR,
+        memory: createMemory(store, createVectorStore()),
+        lock,
+        actions: [
+          action({
+            name: "visit",
+            schema: z.object({}),
+            handler: async (_call, ctx) => {
+              await new Promise((resolve) => setTimeout(resolve, 50));
+              ctx.memory.visits++;
+              return {};
+            },
+          }),
+        ],
+      });
+      agent.on("run:start", () => {
+        events.push(`${name}:start`);
+      });
+      agent.on("run:end", () => {
+        events.push(`${name}:end`);
+      });
+      return agent;
+    });
+
+    const shared = context({
+      type: "shared",
+      schema: z.object({}),
+      create: () => ({ visits: 0 }),
+    });
+
+    for (const agent of agents) await agent.start();
+
+    await Promise.all(
+      agents.map((agent) => agent.run({ context: shared, args: {} }))
+    );
+
+    expect(events).toEqual(["a:start", "a:end", "b:start", "b:end"]);
+    expect(await store.get("shared")).toEqual({ visits: 2 });
+    expect(await store.get("lock:shared")).toBeNull();
+  });
+
+  it("should only wake runs waiting for the contexts a run released", async () => {
+    const inner = createInMemoryContextLock();
+    const acquired: string[] = [];
+    const held = await inner.acquire("blocked", {
+      owner: "other",
+      ttl: 60_000,
+    });
+
+    const agent = createDreams({
+      model: createModel([]),
+      logger: LogLevel.ERROR,
+      memory: createMemory(
+        createMemoryStore({ shared: false }),
+        createVectorStore()
+      ),
+      lock: {
+        ...inner,
+        async acquire(contextId, options) {
+          acquired.push(contextId);
+          return inner.acquire(contextId, options);
+        },
+      },
+    });
+    await agent.start();
+
+    const waiting = agent
+      .run({
+        context: context({ type: "blocked", schema: z.object({}) }),
+        args: {},
+      })
+      .catch((error) => error);
+    await vi.waitFor(() => expect(acquired).toContain("blocked"));
+
+    await agent.run({
+      context: context({ type: "free", schema: z.object({}) }),
+      args: {},
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(acquired.filter((id) => id === "blocked")).toHaveLength(1);
+
+    await agent.stop();
+    await waiting;
+    await inner.release(held!);
+  });
+
+  it("should wait for runs acquiring their lease when stopping", async () => {
+    const inner = createInMemoryContextLock();
+    const acquiring = pDefer<void>();
+    const acquired = pDefer<void>();
+    const events: string[] = [];
+
+    const lock: ContextLock = {
+      ...inner,
+      async acquire(contextId, options) {
+        acquiring.resolve();
+        await acquired.promise;
+        return inner.acquire(contextId, options);
+      },
+      async release(lease) {
+        events.push("released");
+        await inner.release(lease);
+      },
+    };
+
+    const agent = createDreams({
+      model: createModel([]),
+      logger: LogLevel.ERROR,
+      memory: createMemory(
+        createMemoryStore({ shared: false }),
+        createVectorStore()
+      ),
+      lock,
+    });
+    agent.on("run:start", () => {
+      events.push("run:start");
+    });
+
+    const idle = context({ type: "idle", schema: z.object({}) });
+
+    await agent.start();
+    const run = agent.run({ context: idle, args: {} }).catch((error) => error);
+    await acquiring.promise;
+
+    const stopped = agent.stop().then(() => {
+      events.push("stopped");
+    });
+    acquired.resolve();
+    await stopped;
+
+    expect(events).toEqual(["released", "stopped"]);
+    expect(await run).toEqual(new Error("Agent stopped"));
+  });
+});
+
+describe("context registry", () => {
+  const chat = context({
+    type: "chat",
+    schema: z.object({ id: z.string() }),
+    key: ({ id }) => id,
+    create: () => ({ visits: 0 }),
+  });
+
+  const note = context({
+    type: "note",
+    schema: z.object({ title: z.string() }),
+    key: ({ title }) => title,
+    create: () => ({ visits: 0 }),
+  });
+
+  function createAgent(store: MemoryStore) {
+    return createDreams({
+      model: createModel([]),
+      logger: LogLevel.ERROR,
+      memory: createMemory(store, createVectorStore()),
+      contexts: { note },
+      extensions: [extension({ name: "chat", contexts: { chat } })],
+      actions: [
+        action({
+          name: "visit",
+          schema: z.object({}),
+          handler: async (_call, ctx) => {
+            ctx.memory.visits++;
+            return {};
+          },
+        }),
+      ],
+    });
+  }
+
+  it("should register the config and extension contexts", () => {
+    const agent = createAgent(createMemoryStore({ shared: false }));
+
+    expect(agent.contexts).toEqual({ chat, note });
+  });
+
+  it("should resume contexts after a restart", async () => {
+    const store = createMemoryStore({ shared: false });
+
+    const agent = createAgent(store);
+    await agent.start();
+    await agent.run({ context: chat, args: { id: "1" } });
+    await agent.run({ context: note, args: { title: "todo" } });
+    await agent.stop();
+
+    const restarted = createAgent(store);
+    await restarted.start();
+
+    const chats = await restarted.getContexts(chat);
+    expect(chats).toEqual([
+      expect.objectContaining({
+        id: "chat:1",
+        type: "chat",
+        args: { id: "1" },
+      }),
+    ]);
+    expect(chats[0].args.id).toBe("1");
+
+    const state = await restarted.getContextById<typeof chat>("chat:1");
+    expect(state).toMatchObject({
+      id: "chat:1",
+      key: "1",
+      context: chat,
+      memory: { visits: 1 },
+    });
+
+    await restarted.run({
+      context: restarted.contexts[state!.context.type],
+      args: state!.args,
+    });
+
+    expect(await restarted.getContextById("chat:1")).toMatchObject({
+      memory: { visits: 2 },
+    });
+    expect(await restarted.getContextById("chat:2")).toBeNull();
+  });
+
+  it("should register the contexts it runs", async () => {
+    const store = createMemoryStore({ shared: false });
+    const other = context({ type: "other", schema: z.object({}) });
+
+    const agent = createAgent(store);
+    await agent.start();
+    await agent.run({ context: other, args: {} });
+
+    expect(agent.contexts.other).toBe(other);
+    expect(await agent.getContextById("other")).toMatchObject({ id: "other" });
+
+    const restarted = createAgent(store);
+    await restarted.start();
+
+    await expect(restarted.getContextById("other")).rejects.toThrow(
+      "Context type not registered: other"
+    );
+  });
+});
+
+describe("run cancellation", () => {
+  it("should end cancelled runs with a cancellation and save their state", async () => {
+    const store = createMemoryStore({ shared: false });
+    const controller = new AbortController();
+    const reasons: string[] = [];
+
+    const agent = createDreams({
+      model: createModel([]),
+      logger: LogLevel.ERROR,
+      memory: createMemory(store, createVectorStore()),
+      actions: [
+        action({
+          name: "visit",
+          schema: z.object({}),
+          handler: async (_call, ctx) => {
+            ctx.memory.visits++;
+            controller.abort("user left");
+            return {};
+          },
+        }),
+      ],
+    });
+    agent.on("run:end", ({ reason }) => {
+      reasons.push(reason);
+    });
+    await agent.start();
+
+    const counter = context({
+      type: "counter",
+      schema: z.object({}),
+      create: () => ({ visits: 0 }),
+    });
+
+    const chain = await agent.run({
+      context: counter,
+      args: {},
+      abortSignal: controller.signal,
+    });
+
+    expect(chain.at(-1)).toMatchObject({
+      ref: "cancellation",
+      reason: "user left",
+    });
+    expect(reasons).toEqual(["cancelled"]);
+    expect(await store.get("counter")).toEqual({ visits: 1 });
+    expect(await store.get("counter:working-memory")).toMatchObject({
+      calls: [expect.objectContaining({ name: "visit" })],
+      results: [expect.objectContaining({ name: "visit" })],
+    });
+  });
+
+  it("should not save cancelled runs whose lease was lost", async () => {
+    const store = createMemoryStore({ shared: false });
+    const controller = new AbortController();
+    const inner = createInMemoryContextLock();
+    const writes: string[] = [];
+    let lost = false;
+
+    const lock: ContextLock = {
+      ...inner,
+      async renew(lease, ttl) {
+        if (!lost) return inner.renew(lease, ttl);
+        // Another worker took the context, then the request is cancelled
+        controller.abort("user left");
+        return undefined;
+      },
+    };
+
+    const set = store.set.bind(store);
+    vi.spyOn(store, "set").mockImplementation(async (key, value) => {
+      if (lost) writes.push(key);
+      return set(key, value);
+    });
+
+    const agent = createDreams({
+      model: createModel([]),
+      logger: LogLevel.ERROR,
+      memory: createMemory(store, createVectorStore()),
+      lock,
+      lockTtl: 30,
+      actions: [
+        action({
+          name: "visit",
+          schema: z.object({}),
+          handler: async () => {
+            lost = true;
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            return {};
+          },
+        }),
+      ],
+    });
+    await agent.start();
+
+    const chain = await agent.run({
+      context: context({
+        type: "counter",
+        schema: z.object({}),
+        create: () => ({ visits: 0 }),
+      }),
+      args: {},
+      abortSignal: controller.signal,
+    });
+
+    expect(chain.at(-1)).toMatchObject({
+      ref: "cancellation",
+      reason: "user left",
+    });
+    expect(
+      writes.filter((key) => key === "counter" || key.startsWith("counter:"))
+    ).toEqual([]);
+  });
+
+  it("should not run contexts cancelled before they start", async () => {
+    const prompts: string[] = [];
+    const agent = createDreams({
+      model: createModel(prompts),
+      logger: LogLevel.ERROR,
+    });
+    await agent.start();
+
+    const chain = await agent.run({
+      context: context({ type: "counter", schema: z.object({}) }),
+      args: {},
+      abortSignal: AbortSignal.abort(),
+    });
+
+    expect(prompts).toEqual([]);
+    expect(chain).toEqual([expect.objectContaining({ ref: "cancellation" })]);
+  });
+});
+
+describe("action errors", () => {
+  it("should turn failed calls into typed error results", async () => {
+    const agent = createDreams({
+      model: createResponseModel([
+        [
+          "<response>",
+          `<action_call name="missing">{}</action_call>`,
+          `<action_call name="greet">not json</action_call>`,
+          `<action_call name="greet">{"name": 1}</action_call>`,
+          `<action_call name="fail">{}</action_call>`,
+          `<action_call name="greet">{"name": "alice"}</action_call>`,
+          "</response>",
+        ].join(""),
+        `<response><finalize/></response>`,
+      ]),
+      logger: LogLevel.ERROR,
+      actions: [
+        action({
+          name: "greet",
+          schema: z.object({ name: z.string() }),
+          handler: async ({ data }) => ({ greeting: `hello ${data.name}` }),
+        }),
+        action({
+          name: "fail",
+          schema: z.object({}),
+          handler: async (): Promise<{}> => {
+            throw new Error("service unavailable");
+          },
+        }),
+      ],
+    });
+    await agent.start();
+
+    const chain = await agent.run({
+      context: context({ type: "errors", schema: z.object({}) }),
+      args: {},
+    });
+
+    const results = chain.filter((log) => log.ref === "action_result");
+    const errors = Object.fromEntries(
+      results.map(({ name, error }) => [error?.type ?? name, error])
+    );
+
+    expect(results).toHaveLength(5);
+    expect(Object.keys(errors).sort()).toEqual([
+      "action_not_found",
+      "greet",
+      "handler_error",
+      "parse_error",
+      "validation_error",
+    ]);
+    expect(errors.action_not_found?.message).toBe(
+      'Action "missing" does not exist. Available actions: greet, fail'
+    );
+    expect(errors.validation_error?.message).toContain("name: Expected string");
+    expect(errors.handler_error?.message).toBe("service unavailable");
+    expect(results.find((result) => !result.error)?.data).toEqual({
+      greeting: "hello alice",
+    });
+  });
+
+  it("should report malformed final responses as parse errors", async () => {
+    let calls = 0;
+    const agent = createDreams({
+      model: new MockLanguageModelV1({
+        doStream: async () => ({
+          stream: simulateReadableStream({
+            chunks: [
+              {
+                type: "tool-call" as const,
+                toolCallType: "function" as const,
+                toolCallId: String(calls),
+                toolName: "final_response",
+                args: calls++ === 0 ? '{"finalize":' : '{"finalize":true}',
+              },
+              {
+                type: "finish" as const,
+                finishReason: "stop" as const,
+                usage: { promptTokens: 1, completionTokens: 1 },
+              },
+            ],
+          }),
+          rawCall: { rawPrompt: null, rawSettings: {} },
+        }),
+      }),
+      protocol: toolCallingProtocol,
+      logger: LogLevel.ERROR,
+    });
+    await agent.start();
+
+    const chain = await agent.run({
+      context: context({ type: "final", schema: z.object({}) }),
+      args: {},
+    });
+
+    expect(chain.filter((log) => log.ref === "action_result")).toEqual([
+      expect.objectContaining({
+        name: "final_response",
+        error: expect.objectContaining({ type: "parse_error" }),
+      }),
+    ]);
+    expect(calls).toBe(2);
+  });
+
+  it("should only retry idempotent actions", async () => {
+    const attempts: Record<string, number> = {};
+    const aborted: boolean[] = [];
+
+    const flaky = (name: string, options: Partial<AnyAction>) =>
+      action({
+        name,
+        schema: z.object({}),
+        ...options,
+        handler: async (_call, ctx): Promise<{}> => {
+          attempts[name] = (attempts[name] ?? 0) + 1;
+
+          if (options.timeout) {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            aborted.push(!!ctx.abortSignal?.aborted);
+          }
+
+          throw Object.assign(new Error("unavailable"), { status: 503 });
+        },
+      });
+
+    const agent = createDreams({
+      model: createResponseModel([
+        [
+          "<response>",
+          `<action_call name="post">{}</action_call>`,
+          `<action_call name="pay">{}</action_call>`,
+          `<action_call name="fetch">{}</action_call>`,
+          "</response>",
+        ].join(""),
+        `<response><finalize/></response>`,
+      ]),
+      logger: LogLevel.ERROR,
+      actions: [
+        flaky("post", {}),
+        flaky("pay", { retry: { retries: 2, minDelay: 1 }, timeout: 10 }),
+        flaky("fetch", {
+          idempotent: true,
+          retry: { retries: 1, minDelay: 1 },
+          timeout: 10,
+        }),
+      ],
+    });
+    await agent.start();
+
+    const chain = await agent.run({
+      context: context({ type: "retries", schema: z.object({}) }),
+      args: {},
+    });
+
+    const errors = Object.fromEntries(
+      chain
+        .filter((log) => log.ref === "action_result")
+        .map(({ name, error }) => [name, error?.type])
+    );
+
+    expect(attempts).toEqual({ post: 1, pay: 1, fetch: 2 });
+    expect(errors).toEqual({
+      post: "handler_error",
+      pay: "timeout",
+      fetch: "timeout",
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(aborted).toEqual([true, true, true]);
+  });
+
+  it("should fail calls over the action call budget", async () => {
+    const greeted: string[] = [];
+    const agent = createDreams({
+      model: createResponseModel([
+        [
+          "<response>",
+          `<action_call name="greet">{"name": "alice"}</action_call>`,
+          `<action_call name="greet">{"name": "bob"}</action_call>`,
+          "</response>",
+        ].join(""),
+      ]),
+      logger: LogLevel.ERROR,
+      limits: { maxActionCalls: 1 },
+      actions: [
+        action({
+          name: "greet",
+          schema: z.object({ name: z.string() }),
+          handler: async ({ data }) => {
+            greeted.push(data.name);
+            return {};
+          },
+        }),
+      ],
+    });
+    await agent.start();
+
+    const chain = await agent.run({
+      context: context({ type: "budget", schema: z.object({}) }),
+      args: {},
+    });
+
+    const calls = chain.filter((log) => log.ref === "action_call");
+    const results = chain.filter((log) => log.ref === "action_result");
+
+    expect(greeted).toEqual(["alice"]);
+    expect(results).toHaveLength(2);
+    expect(
+      results.find((result) => result.callId === calls[1].id)
+    ).toMatchObject({ error: { type: "budget" } });
+    expect(chain.at(-1)).toMatchObject({
+      ref: "run_limit",
+      limit: "maxActionCalls",
+    });
+  });
+});
+
+describe("action memory", () => {
+  it("should keep the changes of concurrent calls and drop failed ones", async () => {
+    const store = createMemoryStore();
+    const counter = memory({
+      key: "action-memory:counter",
+      create: () => ({ count: 0, names: [] as string[] }),
+    });
+
+    const agent = createDreams({
+      model: createResponseModel([
+        [
+          "<response>",
+          `<action_call name="count">{"name": "alice"}</action_call>`,
+          `<action_call name="count">{"name": "bob"}</action_call>`,
+          `<action_call name="count">{"name": "mallory"}</action_call>`,
+          "</response>",
+        ].join(""),
+        `<response><finalize/></response>`,
+      ]),
+      logger: LogLevel.ERROR,
+      memory: createMemory(store, createVectorStore()),
+      actions: [
+        action({
+          name: "count",
+          schema: z.object({ name: z.string() }),
+          memory: counter,
+          handler: async ({ data }, ctx) => {
+            ctx.actionMemory.count++;
+            ctx.actionMemory.names.push(data.name);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            if (data.name === "mallory") throw new Error("denied");
+            return {};
+          },
+        }),
+      ],
+    });
+    await agent.start();
+
+    await agent.run({
+      context: context({ type: "counter", schema: z.object({}) }),
+      args: {},
+    });
+
+    const stored = await store.get<{ count: number; names: string[] }>(
+      counter.key
+    );
+
+    expect(stored?.count).toBe(2);
+    expect(stored?.names.sort()).toEqual(["alice", "bob"]);
+  });
+});
+
+describe("context mailbox", () => {
+  const chat = context({
+    type: "chat",
+    schema: z.object({ id: z.string() }),
+    key: ({ id }) => id,
+    inputs: {
+      "chat:message": {
+        schema: z.object({ text: z.string() }),
+        format: ({ text }) => `message: ${text}`,
+      },
+    },
+  });
+
+  const message = (text: string) => ({
+    context: chat,
+    args: { id: "1" },
+    input: { type: "chat:message", data: { text } },
+  });
+
+  // The `wait` action blocks the run until the test releases it
+  function setup(config: { store?: MemoryStore; lock?: ContextLock } = {}) {
+    const prompts: string[] = [];
+    const store = config.store ?? createMemoryStore({ shared: false });
+    const started = pDefer<void>();
+    const release = pDefer<void>();
+
+    const agent = createDreams({
+      model: createResponseModel(
+        [
+          `<response><action_call name="wait">{}</action_call></response>`,
+          `<response><finalize/></response>`,
+        ],
+        prompts
+      ),
+      logger: LogLevel.ERROR,
+      memory: createMemory(store, createVectorStore()),
+      lock: config.lock,
+      // Registered so queued inputs are restored after a restart
+      contexts: { chat },
+      actions: [
+        action({
+          name: "wait",
+          schema: z.object({}),
+          handler: async () => {
+            started.resolve();
+            await release.promise;
+            return {};
+          },
+        }),
+      ],
+    });
+
+    return { agent, store, prompts, started, release };
+  }
+
+  // Lets requests sent meanwhile reach the mailbox
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+  async function getInputs(store: MemoryStore) {
+    const workingMemory = await store.get<WorkingMemory>(
+      "chat:1:working-memory"
+    );
+    return workingMemory?.inputs.map(({ data }) => data.text);
+  }
+
+  it("should batch inputs queued during a run in order", async () => {
+    const { agent, store, prompts, started, release } = setup();
+    await agent.start();
+
+    const first = agent.send(message("one"));
+    await started.promise;
+
+    const second = agent.send(message("two"));
+    const third = agent.send(message("three"));
+    await settle();
+
+    expect(await store.get("chat:1:mailbox")).toHaveLength(2);
+
+    release.resolve();
+    const chains = await Promise.all([first, second, third]);
+
+    expect(chains[1]).toBe(chains[0]);
+    expect(chains[2]).toBe(chains[0]);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1].indexOf("message: two")).toBeGreaterThan(-1);
+    expect(prompts[1].indexOf("message: three")).toBeGreaterThan(
+      prompts[1].indexOf("message: two")
+    );
+    expect(await getInputs(store)).toEqual(["one", "two", "three"]);
+    expect(await store.get("chat:1:mailbox")).toEqual([]);
+  });
+
+  it("should not batch requests with their own abort signal", async () => {
+    const { agent, store, started, release } = setup();
+    let runs = 0;
+    agent.on("run:start", () => {
+      runs++;
+    });
+    await agent.start();
+
+    const first = agent.send(message("one"));
+    await started.promise;
+
+    const cancellable = agent.run({
+      context: chat,
+      args: { id: "1" },
+      abortSignal: new AbortController().signal,
+    });
+    const second = agent.send(message("two"));
+    await settle();
+
+    release.resolve();
+    const chains = await Promise.all([first, cancellable, second]);
+
+    expect(runs).toBe(3);
+    expect(new Set(chains).size).toBe(3);
+    expect(await getInputs(store)).toEqual(["one", "two"]);
+  });
+
+  it("should process queued inputs after a restart", async () => {
+    const store = createMemoryStore({ shared: false });
+    const lock = createMemoryStoreContextLock(store);
+    // Another worker holds the context, so the input stays queued
+    const held = await lock.acquire("chat:1", { owner: "other", ttl: 60_000 });
+
+    const stopped = setup({ store, lock });
+    await stopped.agent.start();
+
+    const sent = stopped.agent.send(message("one")).catch((error) => error);
+    await vi.waitFor(async () => {
+      expect(await store.get("chat:1:mailbox")).toHaveLength(1);
+    });
+
+    await stopped.agent.stop();
+    expect(await sent).toEqual(new Error("Agent stopped"));
+    expect(await getInputs(store)).toBeUndefined();
+
+    await lock.release(held!);
+
+    const { agent, release } = setup({ store, lock });
+    const ended = pDefer<void>();
+    agent.on("run:end", () => ended.resolve());
+    release.resolve();
+
+    await agent.start();
+    await ended.promise;
+
+    expect(await getInputs(store)).toEqual(["one"]);
+    expect(await store.get("chat:1:mailbox")).toEqual([]);
+  });
+
+  it("should not write the memory of a context held by another worker", async () => {
+    const store = createMemoryStore({ shared: false });
+    const lock = createMemoryStoreContextLock(store);
+    const held = await lock.acquire("chat:1", { owner: "other", ttl: 60_000 });
+
+    const { agent } = setup({ store, lock });
+    await agent.start();
+
+    const sent = agent.send(message("one")).catch((error) => error);
+    await vi.waitFor(async () => {
+      expect(await store.get("chat:1:mailbox")).toHaveLength(1);
+    });
+
+    expect(await store.get("chat:1")).toBeNull();
+
+    await agent.stop();
+    await sent;
+    await lock.release(held!);
+  });
+});
@@ -2,37 +2,134 @@ import {
   LogLevel,
   type Action,
   type ActionCall,
+  type ActionError,
   type ActionResult,
   type Agent,
   type AnyAction,
   type AnyAgent,
   type AnyContext,
+  type Cancellation,
   type Config,
   type Context,
+  type ContextRef,
   type ContextState,
+  type ContextExpiry,
+  type ContextInfo,
+  type ArchivedContext,
   type Debugger,
+  type ScoredEpisode,
   type Handlers,
+  type InputConfig,
   type Log,
   type Output,
   type OutputRef,
+  type RunEndReason,
+  type RunLimitRef,
+  type RunLimits,
   type Subscription,
   type Thought,
   type WorkingMemory,
 } from "./types";
 import { Logger } from "./logger";
 import createContainer from "./container";
+import { createEventBus } from "./events";
 import { createServiceManager } from "./serviceProvider";
 import { z } from "zod";
-import { TaskRunner } from "./task";
-import { handleStream, type StackElement } from "./prompts/main";
+import {
+  TaskRunner,
+  TaskTimeoutError,
+  createTaskJournal,
+  isRetryableError,
+  type RetryOptions,
+  type TaskDescriptor,
+  type TaskJournal,
+  type TaskOptions,
+} from "./task";
+import { type StackElement } from "./prompts/main";
+import { xmlProtocol } from "./protocols";
 import { defaultWorkingMemory } from "./context";
 import { createMemoryStore } from "./memory";
 import { createPrompt } from "./prompt";
 import { createMemory } from "./memory";
-import { createVectorStore } from "./memory/base";
+import { createVectorStore, updateMemory } from "./memory/base";
 import { v7 as randomUUIDv7 } from "uuid";
-import { runAction, runGenerate, runGenerateResults } from "./tasks";
-import { createEpisodeFromWorkingMemory } from "./memory/utils";
+import {
+  renderPrompt,
+  runAction,
+  runGenerate,
+  runGenerateResults,
+} from "./tasks";
+import { summarizePromptSection, type PromptSummarizer } from "./budget";
+import { getArchiveNamespace, trimMemory } from "./memory/strategies";
+import { createEpisodeStore, getEpisodeNamespace } from "./memory/episodes";
+import { createInMemoryContextLock, type ContextLease } from "./lock";
+import pDefer, { type DeferredPromise } from "p-defer";
+
+const DEFAULT_SHUTDOWN_TIMEOUT = 10_000;
+
+/** Journaled action call, resumed or failed when the agent restarts */
+type ActionCallDescriptor = TaskDescriptor<{
+  contextId: string;
+  type: string;
+  args: any;
+  call: ActionCall;
+}>;
+
+const DEFAULT_RUN_LIMITS = {
+  maxSteps: 100,
+  maxMemoryItems: 50,
+  maxUnprocessedItems: 20,
+} satisfies RunLimits;
+
+type ResolvedRunLimits = RunLimits & typeof DEFAULT_RUN_LIMITS;
+
+type RunState = {
+  ctxState: ContextState<AnyContext>;
+  /** States of the contexts used by the running context, by name */
+  usedContexts: Record<string, ContextState<AnyContext>>;
+  workingMemory: WorkingMemory;
+  done: DeferredPromise<void>;
+  /** Aborted once the run lost the lease of one of its contexts */
+  leaseSignal: AbortSignal;
+};
+
+type RunParams = Parameters<AnyAgent["run"]>[0];
+
+/** Context known by the agent, persisted under `contexts:<id>` */
+type ContextEntry = Omit<ContextInfo, "id">;
+
+const DEFAULT_EXPIRY_INTERVAL = 60_000;
+
+const DEFAULT_LOCK_TTL = 30_000;
+
+/** Delay before trying again to run a context locked by another worker */
+const LOCK_RETRY_DELAY = 1_000;
+
+/** Input waiting in a context mailbox to be added to working memory */
+type QueuedInput = {
+  id: string;
+  type: string;
+  data: any;
+  episodes?: ScoredEpisode[];
+};
+
+/**
+ * Queued input persisted under `<contextId>:mailbox` until it is added to
+ * the working memory, so it is processed after a restart
+ */
+type PersistedInput = {
+  /** Type of the context the input was sent to */
+  context: string;
+  args: any;
+  input: QueuedInput;
+};
+
+/** Run request waiting for a context to become available */
+type MailboxEntry = {
+  params: RunParams;
+  input?: QueuedInput;
+  deferred: DeferredPromise<Log[]>;
+};
 
 export function createDreams<
   Memory = any,
@@ -44,10 +141,28 @@ export function createDreams<
   >,
 >(config: Config<Memory, TContext>): Agent<Memory, TContext> {
   let booted = false;
+  let stopping = false;
 
   const inputSubscriptions = new Map<string, Subscription>();
-  const contexts = new Map<string, { type: string; args?: any }>();
+  let expiryTimer: ReturnType<typeof setInterval> | undefined;
+  const contexts = new Map<string, ContextEntry>();
+  // Context definitions by type
+  const registry: Record<string, AnyContext> = {};
   const contextsRunning = new Set<string>();
+  /**
+   * Locked contexts tried again after a delay or once the lease they wait
+   * for is released here, by context id
+   */
+  const retries = new Map<
+    string,
+    { timer: ReturnType<typeof setTimeout>; lockedId: string }
+  >();
+  const runs = new Map<string, RunState>();
+  /** Settled once the mailbox run of a context ends, set before its lease */
+  const runsDone = new Map<string, Promise<void>>();
+  const mailboxes = new Map<string, MailboxEntry[]>();
+  /** Contexts being destroyed, runs wait for them to recreate the context */
+  const destroying = new Map<string, Promise<void>>();
 
   const {
     inputs = {},
@@ -63,6 +178,11 @@ export function createDreams<
 
   const container = config.container ?? createContainer();
 
+  const lock = config.lock ?? createInMemoryContextLock();
+  const lockTtl = config.lockTtl ?? DEFAULT_LOCK_TTL;
+  // Owner of the context leases acquired by this agent
+  const workerId = randomUUIDv7();
+
   const taskRunner = config.taskRunner ?? new TaskRunner(3);
 
   const logger = new Logger({
@@ -73,6 +193,8 @@ export function createDreams<
 
   container.instance("logger", logger);
 
+  const eventBus = createEventBus(events, logger);
+
   logger.debug("dreams", "Creating agent", {
     hasModel: !!model,
     hasReasoningModel: !!reasoningModel,
@@ -98,7 +220,32 @@ export function createDreams<
     serviceManager.register(service);
   }
 
+  /**
+   * Adds a context definition to the registry, the first definition of a
+   * type is kept
+   */
+  function registerContext(context: AnyContext) {
+    const registered = registry[context.type];
+
+    if (registered && registered !== context) {
+      logger.warn("dreams", "Context type already registered", {
+        type: context.type,
+      });
+    }
+
+    registry[context.type] ??= context;
+  }
+
+  if (config.context) registerContext(config.context);
+
+  for (const context of Object.values(config.contexts ?? {})) {
+    registerContext(context);
+  }
+
   for (const extension of extensions) {
+    for (const context of Object.values(extension.contexts ?? {})) {
+      registerContext(context);
+    }
     if (extension.inputs) Object.assign(inputs, extension.inputs);
     if (extension.outputs) Object.assign(outputs, extension.outputs);
     if (extension.events) Object.assign(events, extension.events);
@@ -124,16 +271,33 @@ export function createDreams<
     taskRunner,
     debugger: debug,
     context: config.context ?? undefined,
-    emit: (event: string, data: any) => {
-      logger.debug("agent:event", event, data);
+    contexts: registry,
+    on: eventBus.on,
+    off: eventBus.off,
+    emit: eventBus.emit,
+
+    async getContexts(context) {
+      return Array.from(contexts.entries())
+        .filter(
+          ([id, entry]) =>
+            id !== "agent:context" && (!context || entry.type === context.type)
+        )
+        .map(([id, entry]) => ({ id, ...entry }));
     },
 
-    async getContexts() {
-      return Array.from(contexts.entries()).map(([id, { type, args }]) => ({
-        id,
-        type,
-        args,
-      }));
+    async getContextById<TContext extends AnyContext = AnyContext>(id: string) {
+      logger.trace("agent:getContextById", "Getting context state", { id });
+
+      const entry = contexts.get(id);
+      if (!entry || id === "agent:context") return null;
+
+      // The caller names the definition registered under the entry type
+      const context = registry[entry.type] as TContext | undefined;
+      if (!context) {
+        throw new Error(`Context type not registered: ${entry.type}`);
+      }
+
+      return getContextState(agent, context, entry.args);
     },
 
     getContext(params) {
@@ -141,6 +305,11 @@ export function createDreams<
       return getContextState(agent, params.context, params.args);
     },
 
+    async deleteContext(contextId, options) {
+      logger.info("agent:deleteContext", "Deleting context", { contextId });
+      await destroyContext(contextId, "deleted", options?.expiry);
+    },
+
     getContextId(params) {
       logger.trace("agent:getContextId", "Getting context id", params);
       return getContextId(params.context, params.args);
@@ -174,32 +343,7 @@ export function createDreams<
       });
 
       for (const [type, input] of Object.entries(agent.inputs)) {
-        if (input.install) {
-          logger.trace("agent:start", "Installing input", { type });
-          await Promise.resolve(input.install(agent));
-        }
-
-        if (input.subscribe) {
-          logger.trace("agent:start", "Subscribing to input", { type });
-          let subscription = input.subscribe((context, args, data) => {
-            logger.debug("agent", "input", { context, args, data });
-            agent
-              .send({
-                context,
-                input: { type, data },
-                args,
-              })
-              .catch((err) => {
-                logger.error("agent:input", "error", err);
-              });
-          }, agent);
-
-          if (typeof subscription === "object") {
-            subscription = await Promise.resolve(subscription);
-          }
-
-          if (subscription) inputSubscriptions.set(type, subscription);
-        }
+        await setupInput(type, input, type);
       }
 
       logger.debug("agent:start", "Setting up outputs", {
@@ -224,6 +368,32 @@ export function createDreams<
         }
       }
 
+      for (const context of Object.values(registry)) {
+        logger.debug("agent:start", "Setting up context", {
+          type: context.type,
+        });
+
+        for (const [type, input] of Object.entries(context.inputs ?? {})) {
+          await setupInput(type, input, [context.type, type].join(":"));
+        }
+
+        for (const [type, output] of Object.entries(context.outputs ?? {})) {
+          if (output.install) {
+            logger.trace("agent:start", "Installing output", { type });
+            await Promise.resolve(output.install(agent));
+          }
+        }
+
+        for (const action of context.actions ?? []) {
+          if (action.install) {
+            logger.trace("agent:start", "Installing action", {
+              name: action.name,
+            });
+            await Promise.resolve(action.install(agent));
+          }
+        }
+      }
+
       if (agent.context) {
         logger.debug("agent:start", "Setting up agent context", {
           type: agent.context.type,
@@ -234,367 +404,1574 @@ export function createDreams<
       }
 
       logger.debug("agent:start", "Loading saved contexts");
-      const savedContexts =
-        await agent.memory.store.get<[string, { type: string; args?: any }][]>(
-          "contexts"
-        );
+      await migrateContextEntries();
+      await expireContexts();
 
-      if (savedContexts) {
-        logger.trace("agent:start", "Restoring saved contexts", {
-          count: savedContexts.length,
+      const expiryInterval = config.expiryInterval ?? DEFAULT_EXPIRY_INTERVAL;
+      expiryTimer = setInterval(() => {
+        expireContexts().catch((error) => {
+          logger.error("agent:expiry", "Failed to expire contexts", error);
         });
-        for (const [id, { type, args }] of savedContexts) {
-          contexts.set(id, { type, args });
-        }
+      }, expiryInterval);
+      // Checking for expired contexts never keeps the process alive
+      expiryTimer.unref?.();
+
+      if (journal) {
+        logger.debug("agent:start", "Recovering interrupted action calls");
+        await recoverActionCalls(journal);
       }
 
+      logger.debug("agent:start", "Restoring queued inputs");
+      await restoreInputs();
+
       logger.info("agent:start", "Agent started successfully");
       return agent;
     },
 
-    async stop() {
-      logger.info("agent:stop", "Stopping agent");
-    },
+    async stop(options) {
+      logger.info("agent:stop", "Stopping agent", { booted, stopping });
+      if (!booted || stopping) return;
 
-    run: async ({ context, args, outputs, handlers }) => {
-      if (!booted) {
-        logger.error("agent:run", "Agent not booted");
-        throw new Error("Not booted");
+      stopping = true;
+      clearInterval(expiryTimer);
+
+      // Locked contexts are not tried again, their requests are rejected below
+      for (const { timer } of retries.values()) clearTimeout(timer);
+      retries.clear();
+
+      const timeout = options?.timeout ?? DEFAULT_SHUTDOWN_TIMEOUT;
+      const deadline = Date.now() + timeout;
+
+      logger.debug("agent:stop", "Unsubscribing inputs", {
+        count: inputSubscriptions.size,
+      });
+      for (const [type, unsubscribe] of inputSubscriptions) {
+        try {
+          unsubscribe();
+        } catch (error) {
+          logger.error("agent:stop", "Failed to unsubscribe input", {
+            type,
+            error,
+          });
+        }
       }
+      inputSubscriptions.clear();
 
-      logger.info("agent:run", "Running context", {
-        contextType: context.type,
-        hasArgs: !!args,
-        hasCustomOutputs: !!outputs,
-        hasHandlers: !!handlers,
+      const pendingRuns = Array.from(runsDone.values());
+
+      logger.debug("agent:stop", "Waiting for running contexts", {
+        count: pendingRuns.length,
+        timeout,
       });
 
-      const ctxState = await getContextState(agent, context, args);
-      logger.debug("agent:run", "Context state retrieved", { id: ctxState.id });
+      let timer: ReturnType<typeof setTimeout> | undefined;
 
-      contexts.set(ctxState.id, { type: context.type, args });
+      await Promise.race([
+        Promise.all(pendingRuns),
+        new Promise((resolve) => {
+          timer = setTimeout(resolve, timeout);
+        }),
+      ]);
 
-      await agent.memory.store.set<[string, { args?: any }][]>(
-        "contexts",
-        Array.from(contexts.entries())
+      clearTimeout(timer);
+
+      const drained = await taskRunner.drain(
+        Math.max(0, deadline - Date.now())
       );
 
-      if (contextsRunning.has(ctxState.id)) {
-        logger.debug("agent:run", "Context already running", {
-          id: ctxState.id,
+      if (!drained) {
+        const rejected = taskRunner.clear(new Error("Agent stopped"));
+        logger.warn("agent:stop", "Shutdown deadline reached", {
+          rejectedTasks: rejected,
+          activeTasks: taskRunner.activeTasksCount,
         });
-        return [];
       }
 
-      contextsRunning.add(ctxState.id);
-      logger.debug("agent:run", "Added context to running set", {
-        id: ctxState.id,
-      });
+      // Runs that did not end in time
+      const activeRuns = Array.from(runs.values());
 
-      const workingMemory = await getContextWorkingMemory(agent, ctxState.id);
-      logger.trace("agent:run", "Working memory retrieved", {
-        id: ctxState.id,
-        inputsCount: workingMemory.inputs.length,
-        outputsCount: workingMemory.outputs.length,
-        thoughtsCount: workingMemory.thoughts.length,
+      logger.debug("agent:stop", "Flushing context state", {
+        count: activeRuns.length,
       });
 
-      const contextOuputs: Output[] = Object.entries({
-        ...agent.outputs,
-        ...(outputs ?? {}),
-      })
-        .filter(([_, output]) =>
-          output.enabled
-            ? output.enabled({
-                ...ctxState,
-                context,
-                workingMemory,
-              })
-            : true
-        )
-        .map(([type, output]) => ({
-          type,
-          ...output,
-        }));
+      for (const run of activeRuns) {
+        const { ctxState, usedContexts, workingMemory, leaseSignal } = run;
 
-      logger.debug("agent:run", "Enabled outputs", {
-        count: contextOuputs.length,
-      });
+        // Another worker may be running the context already
+        if (leaseSignal.aborted) {
+          logger.warn("agent:stop", "Context lease lost, not flushing", {
+            id: ctxState.id,
+          });
+          continue;
+        }
+
+        try {
+          await saveContextState(agent, ctxState);
+          await saveContextStates(agent, Object.values(usedContexts));
+          await saveContextWorkingMemory(agent, ctxState.id, workingMemory);
+        } catch (error) {
+          logger.error("agent:stop", "Failed to flush context state", {
+            id: ctxState.id,
+            error,
+          });
+        }
+      }
 
-      logger.debug("agent:run", "Preparing actions");
-      const contextActions = await Promise.all(
-        actions.map(async (action) => {
-          let actionMemory: unknown = {};
+      // Queued inputs stay persisted and are processed after a restart
+      for (const mailbox of mailboxes.values()) {
+        for (const { deferred } of mailbox.splice(0)) {
+          deferred.reject(new Error("Agent stopped"));
+        }
+      }
+      mailboxes.clear();
 
-          if (action.memory) {
-            actionMemory =
-              (await agent.memory.store.get(action.memory.key)) ??
-              action.memory.create();
-          }
+      logger.debug("agent:stop", "Shutting down services");
+      try {
+        await serviceManager.shutdownAll();
+      } catch (error) {
+        logger.error("agent:stop", "Failed to shutdown services", error);
+      }
 
-          const enabled = action.enabled
-            ? action.enabled({
-                ...ctxState,
-                context,
-                workingMemory,
-                actionMemory,
-              })
-            : true;
+      booted = false;
+      stopping = false;
 
-          return enabled ? action : undefined;
-        })
-      ).then((r) => r.filter((a) => !!a));
+      logger.info("agent:stop", "Agent stopped");
+    },
 
-      logger.debug("agent:run", "Enabled actions", {
-        count: contextActions.length,
+    run: async (params) => {
+      logger.info("agent:run", "Running context", {
+        contextType: params.context.type,
+        hasArgs: !!params.args,
+        hasCustomOutputs: !!params.outputs,
+        hasHandlers: !!params.handlers,
+        hasAbortSignal: !!params.abortSignal,
       });
 
-      const agentCtxState = agent.context
-        ? await getContextState(
-            agent,
-            agent.context,
-            contexts.get("agent:context")!.args
-          )
-        : undefined;
+      return scheduleRun(params);
+    },
 
-      logger.debug("agent:run", "Agent context state", {
-        hasAgentContext: !!agentCtxState,
-        id: agentCtxState?.id,
+    send: async (params) => {
+      logger.info("agent:send", "Sending input", {
+        inputType: params.input.type,
+        contextType: params.context.type,
       });
 
-      const chain: Log[] = [];
+      assertRunning();
 
-      let hasError = false;
+      const input = getInput(agent, params.context, params.input.type);
 
-      let actionCalls: Promise<any>[] = [];
+      if (!input) {
+        logger.error("agent:send", "Invalid input type", {
+          type: params.input.type,
+        });
+        throw new Error("invalid input");
+      }
 
-      const { state, handler } = createContextStreamHandler({
-        agent,
-        chain,
-        actions: contextActions,
-        actionCalls,
-        agentCtxState,
-        ctxState,
-        handlers,
-        logger,
-        outputs: contextOuputs,
-        taskRunner,
-        workingMemory,
+      const args = params.context.schema.parse(params.args);
+
+      const ctxState = await getContextState(agent, params.context, args);
+      const { key, id: contextId, options, memory } = ctxState;
+
+      logger.debug("agent:send", "Context state retrieved", {
+        id: contextId,
+        key,
+      });
+
+      const data = input.schema.parse(params.input.data);
+      logger.debug("agent:send", "Input data parsed", {
+        type: params.input.type,
       });
 
-      let step = 1;
-      const maxSteps = 100;
+      let episodes: ScoredEpisode[] | undefined;
 
-      while (maxSteps > step) {
-        logger.info("agent:run", `Starting step ${step}/${maxSteps}`, {
-          contextId: ctxState.id,
+      if (episodeStore) {
+        logger.debug("agent:send", "Querying episodic memory");
+
+        episodes = await episodeStore.recall(
+          contextId,
+          typeof data === "string" ? data : JSON.stringify(data)
+        );
+
+        logger.trace("agent:send", "Episodic memory retrieved", {
+          episodesCount: episodes.length,
         });
+      }
 
-        try {
-          const { stream, response } = await taskRunner.enqueueTask(
-            step > 1 ? runGenerateResults : runGenerate,
-            {
-              agent,
-              model: config.reasoningModel ?? config.model,
-              contexts: [agentCtxState, ctxState].filter((t) => !!t),
-              contextId: ctxState.id,
-              actions: contextActions,
-              outputs: contextOuputs,
-              workingMemory,
-              logger,
-              chain,
-            },
-            {
-              debug: agent.debugger,
-            }
-          );
+      // The memory is only written by runs holding the context lease
+      logger.debug("agent:send", "Running evaluator");
+      await agent.evaluator({
+        type: params.context.type,
+        key,
+        memory,
+        options,
+      } as any);
 
-          logger.debug("agent:run", "Processing stream", { step });
-          await handleStream(stream, state.index, handler);
+      const queued: QueuedInput = {
+        id: randomUUIDv7(),
+        type: params.input.type,
+        data,
+        episodes,
+      };
 
-          logger.debug("agent:run", "Waiting for action calls to complete", {
-            pendingCalls: actionCalls.length,
-          });
+      logger.debug("agent:send", "Persisting input", { id: contextId });
+      await persistInput(agent, contextId, {
+        context: params.context.type,
+        args,
+        input: queued,
+      });
 
-          await Promise.allSettled(actionCalls);
+      logger.debug("agent:send", "Queueing input");
+      return await scheduleRun({ ...params, args }, queued);
+    },
 
-          actionCalls.length = 0;
+    evaluator: async (ctx) => {
+      const { id, memory } = ctx;
+      logger.debug("agent:evaluator", "memory", memory);
+    },
+  };
 
-          // Trim working memory after processing each step
-          trimWorkingMemory(workingMemory);
+  container.instance("agent", agent);
 
-          logger.debug("agent:run", "Saving context state", {
-            id: ctxState.id,
-          });
+  const journal = config.durable
+    ? createTaskJournal(agent.memory.store)
+    : undefined;
 
-          await agent.memory.store.set(ctxState.id, ctxState.memory);
+  const episodeStore = config.episodicMemory
+    ? createEpisodeStore({
+        ...config.episodicMemory,
+        vector: config.episodicMemory.vector ?? agent.memory.vector,
+        model: config.episodicMemory.model ?? agent.memory.vectorModel ?? model,
+      })
+    : undefined;
 
-          if (agentCtxState) {
-            logger.debug("agent:run", "Saving agent context state", {
-              id: agentCtxState.id,
-            });
+  /**
+   * Queues a run request in the context mailbox and starts processing it
+   * unless the context is already running. Resolves with the chain of the
+   * run that processed the request.
+   */
+  async function scheduleRun(params: RunParams, input?: QueuedInput) {
+    assertRunning();
 
-            await agent.memory.store.set(
-              agentCtxState.id,
-              agentCtxState.memory
-            );
-          }
+    const { context, args } = params;
 
-          logger.debug("agent:run", "Saving working memory", {
-            id: ctxState.id,
-            workingMemory,
-          });
+    const contextId = getContextId(context, args);
 
-          step++;
+    const destroyed = destroying.get(contextId);
+    if (destroyed) await destroyed;
 
-          if (hasError) {
-            logger.warn("agent:run", "Continuing despite error", { step });
-            continue;
-          }
+    const entry = contexts.get(contextId);
 
-          const pendingResults = workingMemory.results.filter(
-            (i) => i.processed === false
-          );
+    if (!registry[context.type]) registerContext(context);
 
-          await saveContextWorkingMemory(agent, ctxState.id, workingMemory);
+    contexts.set(contextId, {
+      type: context.type,
+      args,
+      createdAt: entry?.createdAt ?? Date.now(),
+      lastActiveAt: Date.now(),
+    });
 
-          if (pendingResults.length === 0) break;
-        } catch (error) {
-          console.log({ error });
-          break;
-        }
-      }
+    if (!entry) {
+      agent.emit("context:created", { contextId, type: context.type, args });
+    }
 
-      logger.debug("agent:run", "Marking all inputs as processed");
+    const deferred = pDefer<Log[]>();
 
-      workingMemory.inputs.forEach((i) => {
-        i.processed = true;
-      });
+    // Queued before saving, so the context can't be destroyed meanwhile
+    if (!mailboxes.has(contextId)) mailboxes.set(contextId, []);
+    mailboxes.get(contextId)!.push({ params, input, deferred });
 
-      logger.debug("agent:run", "Removing context from running set", {
-        id: ctxState.id,
+    await saveContextEntry(contextId);
+
+    if (contextsRunning.has(contextId)) {
+      logger.debug("agent:run", "Context already running, input queued", {
+        id: contextId,
+        queued: mailboxes.get(contextId)!.length,
       });
+    } else {
+      startMailbox(contextId);
+    }
 
-      contextsRunning.delete(ctxState.id);
+    return deferred.promise;
+  }
 
-      logger.info("agent:run", "Run completed", {
-        contextId: ctxState.id,
-        chainLength: chain.length,
-      });
+  function assertRunning() {
+    if (!booted) {
+      logger.error("agent:run", "Agent not booted");
+      throw new Error("Not booted");
+    }
 
-      return chain;
-    },
+    if (stopping) {
+      logger.error("agent:run", "Agent is stopping");
+      throw new Error("Agent is stopping");
+    }
+  }
 
-    send: async (params) => {
-      logger.info("agent:send", "Sending input", {
-        inputType: params.input.type,
-        contextType: params.context.type,
-      });
+  /**
+   * Queues the inputs persisted by a previous process, they are run once the
+   * context is available
+   */
+  async function restoreInputs() {
+    for (const contextId of Array.from(contexts.keys())) {
+      if (contextId === "agent:context") continue;
+
+      for (const persisted of await getPersistedInputs(agent, contextId)) {
+        const context = registry[persisted.context];
+
+        if (!context) {
+          logger.warn("agent:start", "Queued input of unregistered context", {
+            id: contextId,
+            type: persisted.context,
+          });
+          continue;
+        }
 
-      if (params.input.type in agent.inputs === false) {
-        logger.error("agent:send", "Invalid input type", {
-          type: params.input.type,
+        logger.debug("agent:start", "Queueing persisted input", {
+          id: contextId,
+          type: persisted.input.type,
         });
-        throw new Error("invalid input");
-      }
 
-      const {
-        key,
-        id: contextId,
-        options,
-        memory,
-      } = await getContextState(
-        agent,
-        params.context,
-        params.context.schema.parse(params.args)
-      );
+        scheduleRun({ context, args: persisted.args }, persisted.input).catch(
+          (error) => {
+            logger.error("agent:run", "Failed to run queued input", {
+              id: contextId,
+              error,
+            });
+          }
+        );
+      }
+    }
+  }
 
-      logger.debug("agent:send", "Context state retrieved", {
+  /**
+   * Processes a mailbox in the background, failures are reported and reject
+   * the requests still waiting in it
+   */
+  function startMailbox(contextId: string) {
+    processMailbox(contextId).catch((error) => {
+      logger.error("agent:run", "Failed to process mailbox", {
         id: contextId,
-        key,
+        error,
       });
+      agent.emit("error", { contextId, error });
 
-      const workingMemory = await getContextWorkingMemory(agent, contextId);
-      logger.trace("agent:send", "Working memory retrieved", {
-        id: contextId,
-        inputsCount: workingMemory.inputs.length,
-      });
+      if (contextsRunning.has(contextId)) return;
 
-      const input = agent.inputs[params.input.type];
-      const data = input.schema.parse(params.input.data);
-      logger.debug("agent:send", "Input data parsed", {
-        type: params.input.type,
-      });
+      for (const { deferred } of mailboxes.get(contextId)?.splice(0) ?? []) {
+        deferred.reject(error);
+      }
+      mailboxes.delete(contextId);
+    });
+  }
 
-      logger.debug("agent:send", "Querying episodic memory");
+  /**
+   * Installs an input and subscribes to it, inputs of a context are
+   * subscribed under the context type
+   */
+  async function setupInput(
+    type: string,
+    input: InputConfig<any, any>,
+    subscriptionKey: string
+  ) {
+    if (input.install) {
+      logger.trace("agent:start", "Installing input", { type });
+      await Promise.resolve(input.install(agent));
+    }
 
-      const episodicMemory = await agent.memory.vector.query(
-        `${contextId}`,
-        JSON.stringify(data)
-      );
+    if (input.subscribe) {
+      logger.trace("agent:start", "Subscribing to input", { type });
+      let subscription = input.subscribe((context, args, data) => {
+        logger.debug("agent", "input", { context, args, data });
+        agent
+          .send({
+            context,
+            input: { type, data },
+            args,
+          })
+          .catch((err) => {
+            logger.error("agent:input", "error", err);
+          });
+      }, agent);
+
+      if (typeof subscription === "object") {
+        subscription = await Promise.resolve(subscription);
+      }
+
+      if (subscription) inputSubscriptions.set(subscriptionKey, subscription);
+    }
+  }
+
+  /**
+   * Actions available in the runs of a context, its own actions replace the
+   * agent actions with the same name
+   */
+  function getContextActions(context: AnyContext): AnyAction[] {
+    const contextActions: AnyAction[] = context.actions ?? [];
+    return [
+      ...actions.filter(
+        (action) => !contextActions.some((a) => a.name === action.name)
+      ),
+      ...contextActions,
+    ];
+  }
+
+  /** Saves the entry of a context, or removes it once the context is gone */
+  async function saveContextEntry(contextId: string) {
+    const key = ["contexts", contextId].join(":");
+    const entry = contexts.get(contextId);
+
+    if (entry) await agent.memory.store.set<ContextEntry>(key, entry);
+    else await agent.memory.store.delete(key);
+  }
+
+  /**
+   * Loads the context entries saved by every worker sharing the memory store,
+   * entries known by this worker keep their latest activity
+   */
+  async function loadContextEntries() {
+    const { store } = agent.memory;
+
+    if (!store.keys) {
+      logger.warn("agent:context", "Memory store can't list saved contexts");
+      return;
+    }
 
-      logger.trace("agent:send", "Episodic memory retrieved", {
-        episodesCount: episodicMemory.length,
+    const prefix = "contexts:";
+    const keys = await store.keys(prefix);
+    const entries = store.getMany
+      ? await store.getMany<ContextEntry>(keys)
+      : await Promise.all(keys.map((key) => store.get<ContextEntry>(key)));
+
+    keys.forEach((key, index) => {
+      const entry = entries[index];
+      if (!entry) return;
+
+      const id = key.slice(prefix.length);
+      const known = contexts.get(id);
+
+      contexts.set(id, {
+        ...entry,
+        // Contexts saved by older versions expire from now on
+        createdAt: entry.createdAt ?? Date.now(),
+        lastActiveAt: Math.max(
+          entry.lastActiveAt ?? Date.now(),
+          known?.lastActiveAt ?? 0
+        ),
       });
+    });
+  }
+
+  /**
+   * Moves the entries saved by older versions under the "contexts" key to
+   * their own keys
+   */
+  async function migrateContextEntries() {
+    const { store } = agent.memory;
+    const saved = await store.get<[string, ContextEntry][]>("contexts");
+    if (!saved) return;
+
+    logger.info("agent:start", "Migrating saved contexts", {
+      count: saved.length,
+    });
+
+    for (const [id, entry] of saved) {
+      const key = ["contexts", id].join(":");
+      if (!(await store.get(key))) await store.set(key, entry);
+    }
+
+    await store.delete("contexts");
+  }
+
+  /**
+   * Removes a context with its working memory, they are kept under
+   * `archive:<id>` when the context is archived
+   */
+  async function destroyContext(
+    contextId: string,
+    reason: "deleted" | "expired",
+    expiry?: ContextExpiry
+  ) {
+    const entry = contexts.get(contextId);
+
+    if (!entry || contextId === "agent:context") {
+      throw new Error(`Context not found: ${contextId}`);
+    }
+
+    if (entry.type === agent.context?.type) {
+      throw new Error("The agent context can't be deleted");
+    }
+
+    if (
+      contextsRunning.has(contextId) ||
+      mailboxes.has(contextId) ||
+      destroying.has(contextId)
+    ) {
+      throw new Error(`Context is running: ${contextId}`);
+    }
+
+    // Runs requested meanwhile wait for the context to be destroyed
+    const destroyed = pDefer<void>();
+    destroying.set(contextId, destroyed.promise);
 
-      workingMemory.episodicMemory = {
-        episodes: episodicMemory,
+    try {
+      const lease = await acquireLease(contextId);
+      if (!lease) throw new Error(`Context is running: ${contextId}`);
+
+      try {
+        await removeContext(contextId, entry, reason, expiry);
+      } finally {
+        await lock.release(lease).catch((error) => {
+          logger.error("agent:lock", "Failed to release context lease", {
+            id: contextId,
+            error,
+          });
+        });
+      }
+    } finally {
+      destroying.delete(contextId);
+      destroyed.resolve();
+    }
+  }
+
+  async function removeContext(
+    contextId: string,
+    entry: ContextEntry,
+    reason: "deleted" | "expired",
+    expiry?: ContextExpiry
+  ) {
+    const context = registry[entry.type];
+    expiry ??= context?.expiry ?? "delete";
+
+    logger.debug("agent:context", "Destroying context", {
+      id: contextId,
+      reason,
+      expiry,
+    });
+
+    const ctxState = context
+      ? await getContextState(agent, context, entry.args)
+      : undefined;
+
+    if (ctxState) await context!.onDestroy?.(ctxState, agent);
+
+    const workingMemoryKey = [contextId, "working-memory"].join(":");
+
+    if (expiry === "archive") {
+      const archive: ArchivedContext = {
+        id: contextId,
+        type: entry.type,
+        args: entry.args,
+        memory: ctxState
+          ? ctxState.memory
+          : await agent.memory.store.get(contextId),
+        workingMemory:
+          await agent.memory.store.get<WorkingMemory>(workingMemoryKey),
+        archivedAt: Date.now(),
       };
 
-      if (input.handler) {
-        logger.debug("agent:send", "Using custom input handler", {
-          type: params.input.type,
+      await agent.memory.store.set(["archive", contextId].join(":"), archive);
+    }
+
+    // Vector data is deleted before the keys so that an interrupted destroy
+    // is done again, stores that can't delete namespaces keep theirs
+    for (const namespace of [
+      getEpisodeNamespace(contextId),
+      getArchiveNamespace(contextId),
+    ]) {
+      try {
+        await agent.memory.vector.deleteNamespace(namespace);
+      } catch (error) {
+        logger.warn("agent:context", "Failed to delete vector namespace", {
+          id: contextId,
+          namespace,
+          error,
         });
-        await input.handler(
-          data,
+      }
+    }
+
+    await agent.memory.store.delete(contextId);
+    await agent.memory.store.delete(workingMemoryKey);
+
+    contexts.delete(contextId);
+    await saveContextEntry(contextId);
+
+    agent.emit("context:destroyed", {
+      contextId,
+      type: entry.type,
+      reason,
+      expiry,
+    });
+  }
+
+  /**
+   * Removes the contexts older than their `ttl` or idle for longer than
+   * their `maxIdle`
+   */
+  async function expireContexts() {
+    await loadContextEntries();
+
+    const now = Date.now();
+
+    for (const [contextId, entry] of Array.from(contexts)) {
+      if (contextId === "agent:context") continue;
+      if (entry.type === agent.context?.type) continue;
+      if (contextsRunning.has(contextId) || mailboxes.has(contextId)) continue;
+      if (destroying.has(contextId)) continue;
+
+      const context = registry[entry.type];
+      if (!context) continue;
+
+      const expired =
+        (context.ttl !== undefined &&
+          now - (entry.createdAt ?? now) >= context.ttl) ||
+        (context.maxIdle !== undefined &&
+          now - (entry.lastActiveAt ?? now) >= context.maxIdle);
+
+      if (!expired) continue;
+
+      try {
+        await destroyContext(contextId, "expired");
+      } catch (error) {
+        logger.error("agent:expiry", "Failed to expire context", {
+          id: contextId,
+          error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Resumes action calls interrupted by a crash. Calls that never started and
+   * calls to idempotent actions run again, the others get a failed result so
+   * the model knows they may have been attempted.
+   */
+  async function recoverActionCalls(journal: TaskJournal) {
+    const descriptors = (await journal.list()).filter(
+      (descriptor): descriptor is ActionCallDescriptor =>
+        descriptor.key === "action"
+    );
+
+    if (descriptors.length === 0) return;
+
+    logger.info("agent:start", "Found interrupted action calls", {
+      count: descriptors.length,
+    });
+
+    const byContext = new Map<string, ActionCallDescriptor[]>();
+    for (const descriptor of descriptors) {
+      const { contextId } = descriptor.params;
+      if (!byContext.has(contextId)) byContext.set(contextId, []);
+      byContext.get(contextId)!.push(descriptor);
+    }
+
+    for (const [contextId, entries] of byContext) {
+      const lease = await acquireLease(contextId);
+
+      if (!lease) {
+        logger.info("agent:start", "Context locked, skipping recovery", {
+          contextId,
+        });
+        continue;
+      }
+
+      // Hold the context so inputs received meanwhile wait in its mailbox
+      contextsRunning.add(contextId);
+      const keeper = keepLease(lease);
+
+      try {
+        await recoverContextActionCalls(journal, contextId, entries);
+      } catch (error) {
+        logger.error("agent:start", "Failed to recover action calls", {
+          contextId,
+          error,
+        });
+        agent.emit("error", { contextId, error });
+      } finally {
+        await keeper.release();
+        contextsRunning.delete(contextId);
+      }
+
+      startMailbox(contextId);
+    }
+  }
+
+  /**
+   * Loads the contexts used by a context, the agent context is used by every
+   * other context under the name "agent"
+   */
+  function getUsedContexts(ctxState: ContextState<AnyContext>) {
+    const refs: ContextRef[] = agent.context
+      ? [
+          {
+            name: "agent",
+            context: agent.context,
+            args: contexts.get("agent:context")!.args,
+          },
+        ]
+      : [];
+
+    return getUsedContextStates(agent, ctxState, refs);
+  }
+
+  async function recoverContextActionCalls(
+    journal: TaskJournal,
+    contextId: string,
+    descriptors: ActionCallDescriptor[]
+  ) {
+    const { type, args } = descriptors[0].params;
+    const context = registry[type];
+
+    const ctxState = context
+      ? await getContextState(agent, context, args)
+      : undefined;
+
+    const usedContexts = ctxState ? await getUsedContexts(ctxState) : {};
+
+    const workingMemory = await getContextWorkingMemory(agent, contextId);
+
+    for (const { id, status, params } of descriptors) {
+      const { call } = params;
+
+      if (!workingMemory.calls.some((c) => c.id === call.id)) {
+        workingMemory.calls.push(call);
+      }
+
+      // Completed before the journal entry was removed
+      if (workingMemory.results.some((r) => r.callId === call.id)) {
+        await journal.remove(id);
+        continue;
+      }
+
+      const action = context
+        ? getContextActions(context).find((a) => a.name === call.name)
+        : undefined;
+      const resumable =
+        !!ctxState && !!action && (status === "queued" || !!action.idempotent);
+
+      logger.debug("agent:start", "Recovering action call", {
+        contextId,
+        name: call.name,
+        status,
+        resumable,
+      });
+
+      let result: ActionResult;
+
+      if (resumable) {
+        try {
+          result = await handleActionCall({
+            call,
+            action,
+            agent,
+            logger,
+            state: ctxState,
+            taskRunner,
+            workingMemory,
+            contexts: usedContexts,
+            journal,
+          });
+        } catch (error) {
+          logger.error("agent:start", "Failed to resume action call", {
+            name: call.name,
+            error,
+          });
+          agent.emit("error", { contextId, error });
+          continue;
+        }
+      } else {
+        await journal.remove(id);
+        result = createActionErrorResult(call, {
+          type: "interrupted",
+          message:
+            status === "running"
+              ? "The agent stopped while this action was running, it may have been executed"
+              : "The agent stopped before this action was executed",
+          details: { attempted: status === "running" },
+        });
+      }
+
+      workingMemory.results.push(result);
+      agent.emit("action:result", { contextId, result });
+    }
+
+    await saveContextWorkingMemory(agent, contextId, workingMemory);
+  }
+
+  /**
+   * Runs a context until its mailbox is empty, starting a follow-up run for
+   * requests that arrived after the last step of the previous one.
+   */
+  async function processMailbox(contextId: string) {
+    const mailbox = mailboxes.get(contextId);
+    if (!mailbox?.length || contextsRunning.has(contextId)) return;
+
+    contextsRunning.add(contextId);
+    logger.debug("agent:run", "Added context to running set", {
+      id: contextId,
+    });
+
+    // Registered before any await so that stop() waits for the run
+    const done = pDefer<void>();
+    runsDone.set(contextId, done.promise);
+
+    const lease = await acquireLease(contextId);
+
+    if (!lease) {
+      contextsRunning.delete(contextId);
+      runsDone.delete(contextId);
+      done.resolve();
+
+      logger.debug("agent:run", "Context locked, retrying later", {
+        id: contextId,
+        retryIn: LOCK_RETRY_DELAY,
+      });
+
+      retryMailbox(contextId, contextId);
+      return;
+    }
+
+    const trigger = mailbox[0];
+    // Requests processed by the run, they resolve with its chain
+    const claimed: MailboxEntry[] = [];
+    const keepers = [keepLease(lease)];
+    // Set when another run holds a context used by this one
+    let lockedId: string | undefined;
+
+    try {
+      const ctxState = await getContextState(
+        agent,
+        trigger.params.context,
+        trigger.params.args
+      );
+
+      const used = await leaseUsedContexts(ctxState);
+
+      if ("lockedId" in used) {
+        lockedId = used.lockedId;
+      } else {
+        keepers.push(...used.keepers);
+
+        // Requests queued while stopping are rejected by stop()
+        if (!stopping) {
+          const chain = await runContext(
+            ctxState,
+            used.usedContexts,
+            trigger.params,
+            claimed,
+            done,
+            AbortSignal.any(keepers.map((keeper) => keeper.signal))
+          );
+
+          for (const entry of claimed) entry.deferred.resolve(chain);
+        }
+      }
+    } catch (error) {
+      logger.error("agent:run", "Run failed", { id: contextId, error });
+      agent.emit("error", { contextId, error });
+
+      if (!claimed.includes(trigger) && mailbox[0] === trigger) {
+        mailbox.shift();
+        claimed.push(trigger);
+      }
+
+      for (const entry of claimed) entry.deferred.reject(error);
+    } finally {
+      logger.debug("agent:run", "Removing context from running set", {
+        id: contextId,
+      });
+
+      await Promise.all(keepers.map((keeper) => keeper.release()));
+
+      contextsRunning.delete(contextId);
+      runs.delete(contextId);
+      runsDone.delete(contextId);
+      done.resolve();
+
+      const entry = contexts.get(contextId);
+      if (entry) {
+        entry.lastActiveAt = Date.now();
+        await saveContextEntry(contextId).catch((error) => {
+          logger.error("agent:run", "Failed to save context entry", {
+            id: contextId,
+            error,
+          });
+        });
+      }
+    }
+
+    // Runs waiting for the contexts this run held can try again
+    const released = new Set(keepers.map((keeper) => keeper.contextId));
+    for (const [id, retry] of retries) {
+      if (!released.has(retry.lockedId)) continue;
+
+      clearTimeout(retry.timer);
+      retries.delete(id);
+      if (!stopping) startMailbox(id);
+    }
+
+    if (lockedId) {
+      logger.debug("agent:run", "Used context locked, retrying later", {
+        id: contextId,
+        lockedId,
+      });
+
+      retryMailbox(contextId, lockedId);
+      return;
+    }
+
+    if (mailbox.length === 0) {
+      mailboxes.delete(contextId);
+    } else if (!stopping) {
+      logger.debug("agent:run", "Starting follow-up run", {
+        id: contextId,
+        queued: mailbox.length,
+      });
+      startMailbox(contextId);
+    }
+  }
+
+  /**
+   * Tries again to run a locked context, after a delay or once a run of this
+   * worker releases the context it waits for
+   * @param lockedId - The context whose lease another run holds
+   */
+  function retryMailbox(contextId: string, lockedId: string) {
+    clearTimeout(retries.get(contextId)?.timer);
+    retries.delete(contextId);
+    if (stopping) return;
+
+    retries.set(contextId, {
+      lockedId,
+      timer: setTimeout(() => {
+        retries.delete(contextId);
+        startMailbox(contextId);
+      }, LOCK_RETRY_DELAY),
+    });
+  }
+
+  /**
+   * Loads the contexts used by a context and acquires their leases, so runs
+   * sharing a used context run one at a time. When another run holds one of
+   * them, the id of that context is returned instead.
+   */
+  async function leaseUsedContexts(ctxState: ContextState<AnyContext>) {
+    const keepers = new Map<string, ReturnType<typeof keepLease>>();
+    const release = () =>
+      Promise.all(Array.from(keepers.values(), (keeper) => keeper.release()));
+
+    try {
+      while (true) {
+        // Loaded again once leased, another run may have changed them
+        const usedContexts = await getUsedContexts(ctxState);
+        const missing = new Set(
+          Object.values(usedContexts)
+            .map(({ id }) => id)
+            .filter((id) => id !== ctxState.id && !keepers.has(id))
+        );
+
+        if (missing.size === 0) {
+          return { usedContexts, keepers: Array.from(keepers.values()) };
+        }
+
+        for (const id of missing) {
+          const lease = await acquireLease(id);
+          if (!lease) {
+            await release();
+            return { lockedId: id };
+          }
+
+          keepers.set(id, keepLease(lease));
+        }
+      }
+    } catch (error) {
+      await release();
+      throw error;
+    }
+  }
+
+  /**
+   * Acquires the lease of a context, undefined when another worker holds it
+   * or the lock failed
+   */
+  async function acquireLease(contextId: string) {
+    try {
+      return await lock.acquire(contextId, { owner: workerId, ttl: lockTtl });
+    } catch (error) {
+      logger.error("agent:lock", "Failed to acquire context lease", {
+        id: contextId,
+        error,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Renews a lease until it is released, the returned signal is aborted if
+   * the lease is lost
+   */
+  function keepLease(lease: ContextLease) {
+    const controller = new AbortController();
+    let current = lease;
+
+    const timer = setInterval(async () => {
+      try {
+        const renewed = await lock.renew(current, lockTtl);
+        if (!renewed) throw new Error("Context lease lost");
+        current = renewed;
+      } catch (error) {
+        logger.error("agent:lock", "Failed to renew context lease", {
+          id: lease.contextId,
+          error,
+        });
+        clearInterval(timer);
+        controller.abort(error);
+      }
+    }, lockTtl / 3);
+
+    return {
+      contextId: lease.contextId,
+      signal: controller.signal,
+      async release() {
+        clearInterval(timer);
+        try {
+          await lock.release(current);
+        } catch (error) {
+          logger.error("agent:lock", "Failed to release context lease", {
+            id: lease.contextId,
+            error,
+          });
+        }
+      },
+    };
+  }
+
+  async function runContext(
+    ctxState: ContextState<AnyContext>,
+    usedContexts: Record<string, ContextState<AnyContext>>,
+    { context, outputs, abortSignal }: RunParams,
+    claimed: MailboxEntry[],
+    done: DeferredPromise<void>,
+    leaseSignal: AbortSignal
+  ): Promise<Log[]> {
+    const workingMemory = await getContextWorkingMemory(agent, ctxState.id);
+    logger.trace("agent:run", "Working memory retrieved", {
+      id: ctxState.id,
+      inputsCount: workingMemory.inputs.length,
+      outputsCount: workingMemory.outputs.length,
+      thoughtsCount: workingMemory.thoughts.length,
+    });
+
+    // Handlers of every caller whose input is processed by this run
+    const runHandlers: Partial<Handlers>[] = [];
+    const handlers: Partial<Handlers> = {
+      onLogStream: (log, done) =>
+        runHandlers.forEach((h) => h.onLogStream?.(log, done)),
+      onThinking: (thought) =>
+        runHandlers.forEach((h) => h.onThinking?.(thought)),
+      onError: (error, result) =>
+        runHandlers.forEach((h) => h.onError?.(error, result)),
+    };
+
+    // Requests with their own outputs or abort signal are not batched
+    const alone = runsAlone({ outputs, abortSignal });
+
+    async function claimInputs() {
+      const mailbox = mailboxes.get(ctxState.id) ?? [];
+      if (alone && claimed.length > 0) return;
+
+      const batched = mailbox.findIndex(({ params }) => runsAlone(params));
+      const entries = mailbox.splice(
+        0,
+        alone ? 1 : batched === -1 ? mailbox.length : batched
+      );
+
+      if (entries.length === 0) return;
+
+      // Inputs processed by another worker meanwhile are skipped
+      const persisted = new Set(
+        (await getPersistedInputs(agent, ctxState.id)).map(
+          ({ input }) => input.id
+        )
+      );
+
+      const inputs = entries
+        .map(({ input }) => input)
+        .filter(
+          (input): input is QueuedInput => !!input && persisted.has(input.id)
+        );
+
+      for (const entry of entries) {
+        if (entry.params.handlers) runHandlers.push(entry.params.handlers);
+        claimed.push(entry);
+      }
+
+      for (const input of inputs) {
+        await applyInput({ agent, ctxState, workingMemory, input });
+      }
+
+      logger.debug("agent:run", "Claimed queued inputs", {
+        id: ctxState.id,
+        count: entries.length,
+        inputs: inputs.length,
+      });
+
+      if (inputs.length > 0) {
+        await saveContextWorkingMemory(agent, ctxState.id, workingMemory);
+        await removePersistedInputs(
+          agent,
+          ctxState.id,
+          inputs.map((input) => input.id)
+        );
+      }
+    }
+
+    logger.debug("agent:run", "Used contexts", {
+      id: ctxState.id,
+      contexts: Object.fromEntries(
+        Object.entries(usedContexts).map(([name, state]) => [name, state.id])
+      ),
+    });
+
+    const contextOuputs: Output[] = Object.entries({
+      ...agent.outputs,
+      ...(context.outputs ?? {}),
+      ...(outputs ?? {}),
+    })
+      .filter(([_, output]) =>
+        output.enabled
+          ? output.enabled({
+              ...ctxState,
+              context,
+              workingMemory,
+              contexts: usedContexts,
+            })
+          : true
+      )
+      .map(([type, output]) => ({
+        type,
+        ...output,
+      }));
+
+    logger.debug("agent:run", "Enabled outputs", {
+      count: contextOuputs.length,
+    });
+
+    logger.debug("agent:run", "Preparing actions");
+    const contextActions = await Promise.all(
+      getContextActions(context).map(async (action) => {
+        let actionMemory: unknown = {};
+
+        if (action.memory) {
+          actionMemory =
+            (await agent.memory.store.get(action.memory.key)) ??
+            action.memory.create();
+        }
+
+        const enabled = action.enabled
+          ? action.enabled({
+              ...ctxState,
+              context,
+              workingMemory,
+              contexts: usedContexts,
+              actionMemory,
+              agentMemory: usedContexts.agent?.memory,
+            })
+          : true;
+
+        return enabled ? action : undefined;
+      })
+    ).then((r) => r.filter((a) => !!a));
+
+    logger.debug("agent:run", "Enabled actions", {
+      count: contextActions.length,
+    });
+
+    runs.set(ctxState.id, {
+      ctxState,
+      usedContexts,
+      workingMemory,
+      done,
+      leaseSignal,
+    });
+
+    await claimInputs();
+
+    await context.onRun?.(
+      { ...ctxState, workingMemory, contexts: usedContexts },
+      agent
+    );
+
+    agent.emit("run:start", { contextId: ctxState.id, type: context.type });
+
+    const limits: ResolvedRunLimits = {
+      ...DEFAULT_RUN_LIMITS,
+      ...config.limits,
+      ...context.limits,
+    };
+
+    logger.debug("agent:run", "Run limits", limits);
+
+    const memoryStrategy =
+      context.memoryStrategy ?? config.memoryStrategy ?? trimMemory();
+
+    // Aborted by the caller's signal or when the run times out
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(abortSignal?.reason);
+
+    if (abortSignal?.aborted) onAbort();
+    abortSignal?.addEventListener("abort", onAbort);
+
+    // Another worker may take over the context once the lease is lost
+    const onLeaseLost = () => controller.abort(leaseSignal.reason);
+    leaseSignal.addEventListener("abort", onLeaseLost);
+
+    let limitReached: Omit<RunLimitRef, "ref" | "id" | "timestamp"> | null =
+      null;
+
+    const startedAt = Date.now();
+
+    const timeout =
+      limits.timeout !== undefined
+        ? setTimeout(() => {
+            limitReached ??= {
+              reason: "timeout",
+              limit: "timeout",
+              max: limits.timeout!,
+              value: Date.now() - startedAt,
+            };
+            controller.abort(new Error("Run timed out"));
+          }, limits.timeout)
+        : undefined;
+
+    const chain: Log[] = [];
+
+    let hasError = false;
+
+    let actionCalls: Promise<any>[] = [];
+
+    const { state, handler } = createContextStreamHandler({
+      agent,
+      chain,
+      actions: contextActions,
+      actionCalls,
+      usedContexts,
+      ctxState,
+      handlers,
+      logger,
+      outputs: contextOuputs,
+      taskRunner,
+      workingMemory,
+      abortSignal: controller.signal,
+      maxActionCalls: limits.maxActionCalls,
+      journal,
+    });
+
+    let step = 1;
+    let outputTokens = 0;
+
+    let stopped = false;
+
+    while (true) {
+      if (stopping) {
+        logger.info("agent:run", "Agent stopping, ending run", {
+          contextId: ctxState.id,
+          step,
+        });
+        stopped = true;
+        break;
+      }
+
+      if (controller.signal.aborted) {
+        logger.info("agent:run", "Run aborted", {
+          contextId: ctxState.id,
+          step,
+        });
+        break;
+      }
+
+      if (step > limits.maxSteps) {
+        limitReached = {
+          reason: "max_steps",
+          limit: "maxSteps",
+          max: limits.maxSteps,
+          value: step - 1,
+        };
+        break;
+      }
+
+      if (step > 1) await claimInputs();
+
+      logger.info("agent:run", `Starting step ${step}/${limits.maxSteps}`, {
+        contextId: ctxState.id,
+      });
+
+      agent.emit("run:step", { contextId: ctxState.id, step });
+
+      try {
+        const model = config.reasoningModel ?? config.model;
+        const protocol = context.protocol ?? config.protocol ?? xmlProtocol;
+        const callId = randomUUIDv7();
+
+        // Summaries share the queue and rate limit of the generations
+        const summarize: PromptSummarizer = (params) =>
+          taskRunner.enqueue(
+            () =>
+              summarizePromptSection({
+                ...params,
+                abortSignal: controller.signal,
+              }),
+            0,
+            { queue: "llm", rateLimitKey: params.model.provider }
+          );
+
+        const prompt = await renderPrompt({
+          step: step > 1 ? "results" : "response",
+          contexts: [...Object.values(usedContexts), ctxState],
+          contextId: ctxState.id,
+          workingMemory,
+          outputs: contextOuputs,
+          actions: contextActions,
+          chain,
+          model,
+          protocol,
+          budget: { ...config.budget, ...context.budget },
+          logger,
+          summarize,
+          task: { callId, debug: agent.debugger },
+        });
+
+        const { stream, usage } = await taskRunner.enqueueTask(
+          step > 1 ? runGenerateResults : runGenerate,
           {
-            type: params.context.type,
-            key,
-            memory,
+            agent,
+            model,
+            contextId: ctxState.id,
             workingMemory,
-            options,
-          } as any,
+            prompt,
+            logger,
+            protocol,
+            abortSignal: controller.signal,
+          },
+          {
+            callId,
+            debug: agent.debugger,
+            queue: "llm",
+            rateLimitKey: model.provider,
+          }
+        );
+
+        logger.debug("agent:run", "Processing stream", {
+          step,
+          protocol: protocol.name,
+        });
+        await protocol.handleStream({
+          result: stream,
+          actions: contextActions,
+          // Continue after the last element so refs of previous steps are kept
+          index: state.index + 1,
+          handler,
+        });
+
+        outputTokens += (await usage)?.completionTokens ?? 0;
+
+        logger.debug("agent:run", "Waiting for action calls to complete", {
+          pendingCalls: actionCalls.length,
+        });
+
+        await Promise.allSettled(actionCalls);
+
+        actionCalls.length = 0;
+
+        // Keep working memory bounded after processing each step
+        await memoryStrategy({
+          agent,
+          contextId: ctxState.id,
+          workingMemory,
+          maxMemoryItems: limits.maxMemoryItems,
+          maxUnprocessedItems: limits.maxUnprocessedItems,
+          logger,
+          abortSignal: controller.signal,
+        });
+
+        await context.onStep?.(
+          { ...ctxState, workingMemory, contexts: usedContexts, step },
           agent
         );
-      } else {
-        logger.debug("agent:send", "Adding input to working memory", {
-          type: params.context.type,
+
+        // The worker that took over the context owns its state now
+        if (leaseSignal.aborted) break;
+
+        logger.debug("agent:run", "Saving context state", {
+          id: ctxState.id,
         });
-        workingMemory.inputs.push({
-          id: randomUUIDv7(),
-          ref: "input",
-          type: params.context.type,
-          data,
-          timestamp: Date.now(),
-          formatted: input.format ? input.format(data) : undefined,
+
+        await saveContextState(agent, ctxState);
+
+        await saveContextStates(agent, Object.values(usedContexts));
+
+        logger.debug("agent:run", "Saving working memory", {
+          id: ctxState.id,
+          workingMemory,
+        });
+
+        step++;
+
+        if (
+          limits.maxActionCalls !== undefined &&
+          state.actionCallsCount > limits.maxActionCalls
+        ) {
+          limitReached = {
+            reason: "budget",
+            limit: "maxActionCalls",
+            max: limits.maxActionCalls,
+            value: state.actionCallsCount,
+          };
+          await saveContextWorkingMemory(agent, ctxState.id, workingMemory);
+          break;
+        }
+
+        if (
+          limits.maxOutputTokens !== undefined &&
+          outputTokens >= limits.maxOutputTokens
+        ) {
+          limitReached = {
+            reason: "budget",
+            limit: "maxOutputTokens",
+            max: limits.maxOutputTokens,
+            value: outputTokens,
+          };
+          await saveContextWorkingMemory(agent, ctxState.id, workingMemory);
+          break;
+        }
+
+        if (hasError) {
+          logger.warn("agent:run", "Continuing despite error", { step });
+          continue;
+        }
+
+        const pendingResults = workingMemory.results.filter(
+          (i) => i.processed === false
+        );
+
+        await saveContextWorkingMemory(agent, ctxState.id, workingMemory);
+
+        if (pendingResults.length === 0) break;
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.log({ error });
+          agent.emit("error", { contextId: ctxState.id, error });
+
+          try {
+            await context.onError?.(
+              error,
+              { ...ctxState, workingMemory, contexts: usedContexts },
+              agent
+            );
+          } catch (hookError) {
+            logger.error("agent:run", "Context error hook failed", hookError);
+          }
+        }
+        break;
+      }
+    }
+
+    clearTimeout(timeout);
+    abortSignal?.removeEventListener("abort", onAbort);
+    leaseSignal.removeEventListener("abort", onLeaseLost);
+
+    if (leaseSignal.aborted) {
+      logger.warn("agent:run", "Context lease lost, run stopped", {
+        contextId: ctxState.id,
+      });
+      stopped = true;
+    }
+
+    if (limitReached) {
+      const limitRef: RunLimitRef = {
+        ref: "run_limit",
+        id: randomUUIDv7(),
+        timestamp: Date.now(),
+        ...limitReached,
+      };
+
+      logger.warn("agent:run", "Run limit reached", {
+        contextId: ctxState.id,
+        ...limitReached,
+      });
+
+      chain.push(limitRef);
+      handlers?.onLogStream?.(limitRef, true);
+
+      if (!leaseSignal.aborted) {
+        await saveContextState(agent, ctxState);
+        await saveContextWorkingMemory(agent, ctxState.id, workingMemory);
+      }
+    } else if (abortSignal?.aborted) {
+      const reason = abortSignal.reason;
+      const cancellation: Cancellation = {
+        ref: "cancellation",
+        id: randomUUIDv7(),
+        reason:
+          reason instanceof Error
+            ? reason.message
+            : reason !== undefined
+              ? String(reason)
+              : undefined,
+        timestamp: Date.now(),
+      };
+
+      chain.push(cancellation);
+      handlers?.onLogStream?.(cancellation, true);
+
+      if (!leaseSignal.aborted) {
+        logger.info("agent:run", "Saving partial state after abort", {
+          id: ctxState.id,
         });
+
+        await saveContextState(agent, ctxState);
+        await saveContextWorkingMemory(agent, ctxState.id, workingMemory);
       }
+    }
 
-      logger.debug("agent:send", "Running evaluator");
-      await agent.evaluator({
-        type: params.context.type,
-        key,
-        memory,
-        options,
-      } as any);
+    logger.debug("agent:run", "Marking all inputs as processed");
+
+    workingMemory.inputs.forEach((i) => {
+      i.processed = true;
+    });
 
-      logger.debug("agent:send", "Saving context memory", { id: contextId });
-      await agent.memory.store.set(contextId, memory);
+    // The worker that took over the context owns its working memory now
+    if (!leaseSignal.aborted) {
+      await saveContextWorkingMemory(agent, ctxState.id, workingMemory);
+    }
 
-      logger.debug("agent:send", "Saving working memory");
-      await saveContextWorkingMemory(agent, contextId, workingMemory);
+    const reason: RunEndReason = limitReached
+      ? limitReached.reason
+      : abortSignal?.aborted
+        ? "cancelled"
+        : stopped
+          ? "stopped"
+          : "completed";
+
+    logger.info("agent:run", "Run completed", {
+      contextId: ctxState.id,
+      chainLength: chain.length,
+      reason,
+    });
 
-      logger.debug("agent:send", "Running run method");
-      return await agent.run(params);
-    },
+    agent.emit("run:end", { contextId: ctxState.id, chain, reason });
 
-    evaluator: async (ctx) => {
-      const { id, memory } = ctx;
-      logger.debug("agent:evaluator", "memory", memory);
-    },
-  };
+    // Each run that was not cancelled becomes an episode
+    if (episodeStore && reason !== "cancelled") {
+      taskRunner
+        .enqueue(() => episodeStore.record(ctxState.id, chain), 0, {
+          queue: "memory",
+        })
+        .catch((error) => {
+          logger.error("agent:episode", "Failed to record episode", error);
+        });
+    }
 
-  container.instance("agent", agent);
+    return chain;
+  }
 
   return agent;
 }
@@ -617,20 +1994,137 @@ async function getContextState<TContext extends AnyContext>(
 
   const options = context.setup ? await context.setup(args, agent) : {};
 
+  const state = { id, key, args, options, context };
+
   const memory =
-    (await agent.memory.store.get(id)) ??
-    (context.create
-      ? context.create({ key, args, context, id: id, options })
-      : {});
+    (await (context.load ? context.load(state) : agent.memory.store.get(id))) ??
+    (context.create ? context.create(state) : {});
 
-  return {
-    id,
-    key,
-    args,
-    options,
-    context,
-    memory,
-  };
+  return { ...state, memory };
+}
+
+/**
+ * Loads the states of the contexts used by a context, and of the contexts
+ * they use in turn. Each context is loaded once, under the name of the first
+ * reference to it.
+ * @param agent - The agent
+ * @param ctxState - State of the context using the others
+ * @param refs - Contexts used before the ones declared by the context
+ * @returns The used context states by name
+ */
+async function getUsedContextStates(
+  agent: AnyAgent,
+  ctxState: ContextState<AnyContext>,
+  refs: ContextRef[] = []
+): Promise<Record<string, ContextState<AnyContext>>> {
+  const used: Record<string, ContextState<AnyContext>> = {};
+  const loaded = new Set([ctxState.id]);
+
+  async function getRefs({ context, ...state }: ContextState<AnyContext>) {
+    return typeof context.use === "function"
+      ? await context.use({ context, ...state })
+      : (context.use ?? []);
+  }
+
+  async function use(refs: ContextRef[]) {
+    for (const { context, args, name = context.type } of refs) {
+      const parsedArgs = context.schema.parse(args);
+      const id = getContextId(context, parsedArgs);
+
+      // Contexts used several times, or using each other, are loaded once
+      if (loaded.has(id)) continue;
+
+      if (used[name]) {
+        throw new Error(
+          `Context name "${name}" is used by ${used[name].id} and ${id}`
+        );
+      }
+
+      loaded.add(id);
+      used[name] = await getContextState(agent, context, parsedArgs);
+
+      await use(await getRefs(used[name]));
+    }
+  }
+
+  await use([...refs, ...(await getRefs(ctxState))]);
+
+  return used;
+}
+
+/**
+ * Saves the memory of a context with its `save` function, or in the memory
+ * store
+ */
+async function saveContextState(
+  agent: AnyAgent,
+  state: ContextState<AnyContext>
+) {
+  if (state.context.save) {
+    await state.context.save(state);
+  } else {
+    await agent.memory.store.set(state.id, state.memory);
+  }
+}
+
+async function saveContextStates(
+  agent: AnyAgent,
+  states: ContextState<AnyContext>[]
+) {
+  for (const state of states) {
+    await saveContextState(agent, state);
+  }
+}
+
+/**
+ * Whether a run request is processed by a run of its own, its outputs and
+ * abort signal would otherwise apply to the requests batched with it
+ */
+function runsAlone({
+  outputs,
+  abortSignal,
+}: Pick<RunParams, "outputs" | "abortSignal">) {
+  return !!outputs || !!abortSignal;
+}
+
+async function getPersistedInputs(agent: AnyAgent, contextId: string) {
+  return (
+    (await agent.memory.store.get<PersistedInput[]>(
+      [contextId, "mailbox"].join(":")
+    )) ?? []
+  );
+}
+
+async function persistInput(
+  agent: AnyAgent,
+  contextId: string,
+  persisted: PersistedInput
+) {
+  await updateMemory<PersistedInput[]>(
+    agent.memory.store,
+    [contextId, "mailbox"].join(":"),
+    (inputs) => [...(inputs ?? []), persisted]
+  );
+}
+
+async function removePersistedInputs(
+  agent: AnyAgent,
+  contextId: string,
+  ids: string[]
+) {
+  await updateMemory<PersistedInput[]>(
+    agent.memory.store,
+    [contextId, "mailbox"].join(":"),
+    (inputs) => (inputs ?? []).filter(({ input }) => !ids.includes(input.id))
+  );
+}
+
+/**
+ * Finds the configuration of an input sent to a context, inputs of the
+ * context replace agent inputs of the same type
+ */
+function getInput(agent: AnyAgent, context: AnyContext, type: string) {
+  return context.inputs?.[type] ?? agent.inputs[type];
 }
 
 async function getContextWorkingMemory(agent: AnyAgent, contextId: string) {
@@ -652,8 +2146,54 @@ async function saveContextWorkingMemory(
   );
 }
 
+async function applyInput({
+  agent,
+  ctxState,
+  workingMemory,
+  input: { type, data, episodes },
+}: {
+  agent: AnyAgent;
+  ctxState: ContextState<AnyContext>;
+  workingMemory: WorkingMemory;
+  input: QueuedInput;
+}) {
+  const input = getInput(agent, ctxState.context, type)!;
+
+  if (episodes) {
+    workingMemory.episodicMemory = {
+      episodes,
+    };
+  }
+
+  if (input.handler) {
+    await input.handler(
+      data,
+      {
+        type: ctxState.context.type,
+        key: ctxState.key,
+        memory: ctxState.memory,
+        workingMemory,
+        options: ctxState.options,
+      } as any,
+      agent
+    );
+  } else {
+    workingMemory.inputs.push({
+      id: randomUUIDv7(),
+      ref: "input",
+      type: ctxState.context.type,
+      data,
+      timestamp: Date.now(),
+      formatted: input.format ? input.format(data) : undefined,
+    });
+  }
+}
+
 class ActionNotFoundError extends Error {
-  constructor(public call: ActionCall) {
+  constructor(
+    public call: ActionCall,
+    public available: string[]
+  ) {
     super();
   }
 }
@@ -664,6 +2204,73 @@ class ParsingError extends Error {
   }
 }
 
+class ValidationError extends Error {
+  constructor(public zodError: z.ZodError) {
+    super();
+  }
+}
+
+/**
+ * Converts an action call failure into the error payload shown to the model.
+ */
+function toActionError(error: unknown): ActionError {
+  if (error instanceof ActionNotFoundError) {
+    return {
+      type: "action_not_found",
+      message: `Action "${error.call.name}" does not exist. Available actions: ${error.available.join(", ")}`,
+    };
+  }
+
+  if (error instanceof ParsingError) {
+    return {
+      type: "parse_error",
+      message: `Invalid JSON arguments: ${error.parsingError instanceof Error ? error.parsingError.message : String(error.parsingError)}`,
+    };
+  }
+
+  if (error instanceof ValidationError) {
+    return {
+      type: "validation_error",
+      message: error.zodError.issues
+        .map((issue) =>
+          issue.path.length > 0
+            ? `${issue.path.join(".")}: ${issue.message}`
+            : issue.message
+        )
+        .join("; "),
+      details: error.zodError.issues,
+    };
+  }
+
+  if (error instanceof TaskTimeoutError) {
+    return {
+      type: "timeout",
+      message: `Action timed out after ${error.timeout}ms`,
+    };
+  }
+
+  return {
+    type: "handler_error",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+function createActionErrorResult(
+  call: ActionCall,
+  error: ActionError
+): ActionResult {
+  return {
+    ref: "action_result",
+    id: randomUUIDv7(),
+    callId: call.id,
+    name: call.name,
+    data: undefined,
+    error,
+    timestamp: Date.now(),
+    processed: false,
+  };
+}
+
 async function prepareActionCall({
   call,
   actions,
@@ -681,16 +2288,47 @@ async function prepareActionCall({
       data: call.content,
     });
 
-    throw new ActionNotFoundError(call);
+    throw new ActionNotFoundError(
+      call,
+      actions.map((a) => a.name)
+    );
   }
 
+  let json: unknown;
+
   try {
-    const data = action.schema.parse(JSON.parse(call.content));
-    call.data = data;
-    return { action, data };
+    json = JSON.parse(call.content);
   } catch (error) {
     throw new ParsingError(error);
   }
+
+  const result = action.schema.safeParse(json);
+  if (!result.success) throw new ValidationError(result.error);
+
+  call.data = result.data;
+  return { action, data: result.data };
+}
+
+/**
+ * Retry policy of an action. Only idempotent actions retry transient errors
+ * by default, and timed out attempts of other actions are never retried as
+ * they may still have run.
+ */
+function getActionRetry(action: AnyAction): RetryOptions | undefined {
+  const retry =
+    typeof action.retry === "number"
+      ? { retries: action.retry }
+      : (action.retry ?? (action.idempotent ? { retries: 2 } : undefined));
+
+  if (!retry || action.idempotent) return retry;
+
+  const { retryable = isRetryableError } = retry;
+
+  return {
+    ...retry,
+    retryable: (error) =>
+      !(error instanceof TaskTimeoutError) && retryable(error),
+  };
 }
 
 async function handleActionCall({
@@ -701,7 +2339,9 @@ async function handleActionCall({
   call,
   taskRunner,
   agent,
-  agentState,
+  contexts,
+  abortSignal,
+  journal,
 }: {
   state: ContextState<AnyContext>;
   workingMemory: WorkingMemory;
@@ -710,19 +2350,14 @@ async function handleActionCall({
   logger: Logger;
   taskRunner: TaskRunner;
   agent: AnyAgent;
-  agentState?: ContextState;
+  contexts: Record<string, ContextState<AnyContext>>;
+  abortSignal?: AbortSignal;
+  journal?: TaskJournal;
 }) {
-  let actionMemory: unknown = {};
-
-  if (action.memory) {
-    actionMemory =
-      (await agent.memory.store.get(action.memory.key)) ??
-      action.memory.create();
-  }
-
-  const resultData = await taskRunner.enqueueTask(
-    runAction,
-    {
+  async function execute(
+    actionMemory: unknown
+  ): Promise<{ result: ActionResult; failed: boolean }> {
+    const params: Parameters<typeof runAction>[0] = {
       action,
       call,
       agent,
@@ -730,40 +2365,162 @@ async function handleActionCall({
       ctx: {
         ...state,
         workingMemory,
+        contexts,
         actionMemory,
-        agentMemory: agentState?.memory,
+        agentMemory: contexts.agent?.memory,
+        abortSignal,
+        emit: agent.emit,
       },
-    },
-    {
+    };
+
+    const rateLimitKey = action.rateLimitKey ?? action.name;
+
+    const options: TaskOptions = {
       debug: agent.debugger,
+      queue: action.queue ?? "actions",
+      rateLimitKey,
+      retry: getActionRetry(action),
+      // Retries are rate limited like calls
+      beforeRetry: () => taskRunner.takeToken(rateLimitKey),
+      ...(action.timeout !== undefined && { timeout: action.timeout }),
+    };
+
+    const descriptor: ActionCallDescriptor["params"] = {
+      contextId: state.id,
+      type: state.context.type,
+      args: state.args,
+      call,
+    };
+
+    await journal?.add({ id: call.id, key: "action", params: descriptor });
+
+    let started = false;
+    let resultData: any;
+
+    try {
+      resultData = await taskRunner.enqueue(
+        async () => {
+          started = true;
+          await journal?.update(call.id, "running");
+          return runAction(params, options);
+        },
+        options.priority,
+        { queue: options.queue, rateLimitKey: options.rateLimitKey }
+      );
+    } catch (error) {
+      // Calls rejected before they started stay journaled and run on next start
+      if (!started) throw error;
+
+      await journal?.remove(call.id);
+
+      const actionError = toActionError(error);
+      logger.debug("agent:action", "Action call failed", {
+        name: call.name,
+        error: actionError,
+      });
+
+      return {
+        result: createActionErrorResult(call, actionError),
+        failed: true,
+      };
     }
-  );
 
-  const result: ActionResult = {
-    ref: "action_result",
-    id: randomUUIDv7(),
-    callId: call.id,
-    data: resultData,
-    name: call.name,
-    timestamp: Date.now(),
-    processed: false,
-  };
+    await journal?.remove(call.id);
+
+    const result: ActionResult = {
+      ref: "action_result",
+      id: randomUUIDv7(),
+      callId: call.id,
+      data: resultData,
+      name: call.name,
+      timestamp: Date.now(),
+      processed: false,
+    };
+
+    if (action.format) result.formatted = action.format(result);
+
+    return { result, failed: false };
+  }
+
+  if (!action.memory) return (await execute({})).result;
+
+  const { key, create } = action.memory;
+
+  // The action changes a copy, failed calls leave the memory as it was
+  const memory = (await agent.memory.store.get(key)) ?? (await create());
+  const actionMemory = structuredClone(memory);
 
-  if (action.format) result.formatted = action.format(result);
+  const { result, failed } = await execute(actionMemory);
 
-  if (action.memory) {
-    await agent.memory.store.set(action.memory.key, actionMemory);
+  // Changes are merged into the current memory so that calls running
+  // meanwhile keep theirs
+  if (!failed) {
+    await updateMemory(agent.memory.store, key, async (current) =>
+      mergeMemory(memory, actionMemory, current ?? (await create()))
+    );
   }
 
   return result;
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Applies the changes between two versions of a memory to its current
+ * version. Objects are merged by key and items appended to arrays are
+ * appended, other changed values replace the current ones.
+ * @param base - Memory the changes were made on
+ * @param changed - Memory with the changes
+ * @param current - Current memory
+ * @returns The current memory with the changes
+ */
+function mergeMemory(
+  base: unknown,
+  changed: unknown,
+  current: unknown
+): unknown {
+  if (isEqual(base, changed)) return current;
+
+  if (
+    Array.isArray(base) &&
+    Array.isArray(changed) &&
+    Array.isArray(current) &&
+    base.every((item, i) => isEqual(item, changed[i]))
+  ) {
+    return [...current, ...changed.slice(base.length)];
+  }
+
+  if (isPlainObject(base) && isPlainObject(changed) && isPlainObject(current)) {
+    const merged = { ...current };
+
+    for (const key of new Set([
+      ...Object.keys(base),
+      ...Object.keys(changed),
+    ])) {
+      if (!(key in changed)) delete merged[key];
+      else if (!(key in base)) merged[key] = changed[key];
+      else merged[key] = mergeMemory(base[key], changed[key], current[key]);
+    }
+
+    return merged;
+  }
+
+  return changed;
+}
+
 async function handleOutput({
   outputRef,
   outputs,
   logger,
   state,
   workingMemory,
+  contexts,
   agent,
 }: {
   outputs: Output[];
@@ -771,6 +2528,7 @@ async function handleOutput({
   logger: Logger;
   workingMemory: WorkingMemory;
   state: ContextState;
+  contexts: Record<string, ContextState<AnyContext>>;
   agent: AnyAgent;
 }) {
   const output = outputs.find((output) => output.type === outputRef.type);
@@ -817,6 +2575,8 @@ async function handleOutput({
       {
         ...state,
         workingMemory,
+        contexts,
+        emit: agent.emit,
       },
       agent
     );
@@ -859,6 +2619,7 @@ async function handleOutput({
     };
 
     logger.error("agent:output", outputRef.type, error);
+    agent.emit("error", { contextId: state.id, error });
 
     return ref;
   }
@@ -866,46 +2627,11 @@ async function handleOutput({
 
 type PartialLog = Partial<Log> & Pick<Log, "ref" | "id" | "timestamp">;
 
-async function generateEpisode(
-  thought: Thought,
-  actionCall: ActionCall,
-  result: ActionResult,
-  agent: AnyAgent,
-  contextId: string,
-  actions: AnyAction[]
-) {
-  // Find the corresponding Action for the ActionCall
-  const action = actions.find((a) => a.name === actionCall.name);
-
-  if (!action) {
-    return;
-  }
-
-  const thoughts = [thought];
-  const actionsArray = [action];
-  const results = [result];
-
-  const episode = await createEpisodeFromWorkingMemory(
-    thoughts,
-    actionsArray,
-    results,
-    agent
-  );
-
-  await agent.memory.vector.upsert(`${contextId}`, [
-    {
-      id: episode.id,
-      text: episode.observation,
-      metadata: episode,
-    },
-  ]);
-}
-
 function createContextStreamHandler({
   agent,
   chain,
   ctxState,
-  agentCtxState,
+  usedContexts,
   logger,
   handlers,
   taskRunner,
@@ -913,11 +2639,14 @@ function createContextStreamHandler({
   actions,
   actionCalls,
   workingMemory,
+  abortSignal,
+  maxActionCalls,
+  journal,
 }: {
   agent: AnyAgent;
   taskRunner: TaskRunner;
   ctxState: ContextState<AnyContext>;
-  agentCtxState?: ContextState<AnyContext>;
+  usedContexts: Record<string, ContextState<AnyContext>>;
   chain: Log[];
   logger: Logger;
   handlers?: Partial<Handlers>;
@@ -925,10 +2654,14 @@ function createContextStreamHandler({
   actions: AnyAction[];
   actionCalls: Promise<any>[];
   workingMemory: WorkingMemory;
+  abortSignal?: AbortSignal;
+  maxActionCalls?: number;
+  journal?: TaskJournal;
 }) {
   const state = {
     index: 0,
     logsByIndex: new Map<number, PartialLog>(),
+    actionCallsCount: 0,
   };
 
   function getOrCreateRef<TLog extends Omit<PartialLog, "id" | "timestamp">>(
@@ -958,34 +2691,20 @@ function createContextStreamHandler({
 
     if (log.ref === "action_call" && done) {
       workingMemory.calls.push(log);
+      agent.emit("action:call", { contextId: ctxState.id, call: log });
+    }
+
+    if (log.ref === "output" && done) {
+      agent.emit("output", { contextId: ctxState.id, output: log });
     }
 
     if (log.ref === "action_result" && done) {
       workingMemory.results.push(log);
+      agent.emit("action:result", { contextId: ctxState.id, result: log });
 
-      // Find the most recent thought and action call
-      const lastThought =
-        workingMemory.thoughts[workingMemory.thoughts.length - 1];
-      const lastActionCall =
-        workingMemory.calls[workingMemory.calls.length - 1];
-
-      // If we have a complete thought-action-result cycle, generate an episode
-      if (lastThought && lastActionCall) {
-        // Generate episode with the last thought, action call, and result
-        generateEpisode(
-          lastThought,
-          lastActionCall,
-          log,
-          agent,
-          ctxState.id,
-          actions
-        ).catch((error) => {
-          logger.error(
-            "agent:generateEpisode",
-            "Failed to generate episode",
-            error
-          );
-        });
+      if (log.error) {
+        agent.emit("error", { contextId: ctxState.id, error: log.error });
+        handlers?.onError?.(log.error, log);
       }
     }
 
@@ -997,15 +2716,43 @@ function createContextStreamHandler({
       return pushLogStream(call, false);
     }
 
-    // todo: handle errors
-    const { action } = await prepareActionCall({
-      call,
-      actions,
-      logger,
-    });
+    let action: AnyAction;
+
+    try {
+      ({ action } = await prepareActionCall({
+        call,
+        actions,
+        logger,
+      }));
+    } catch (error) {
+      pushLogStream(call, true);
+      pushLogStream(createActionErrorResult(call, toActionError(error)), true);
+      return;
+    }
 
     pushLogStream(call, true);
 
+    state.actionCallsCount++;
+
+    if (
+      maxActionCalls !== undefined &&
+      state.actionCallsCount > maxActionCalls
+    ) {
+      logger.warn("agent:action", "Action call budget exceeded, skipping", {
+        name: call.name,
+        maxActionCalls,
+      });
+      pushLogStream(
+        createActionErrorResult(call, {
+          type: "budget",
+          message: `Action call budget of ${maxActionCalls} calls per run exceeded, the call was not executed`,
+          details: { maxActionCalls },
+        }),
+        true
+      );
+      return;
+    }
+
     actionCalls.push(
       handleActionCall({
         call,
@@ -1015,11 +2762,18 @@ function createContextStreamHandler({
         state: ctxState,
         taskRunner,
         workingMemory,
-        agentState: agentCtxState,
-      }).then((res) => {
-        pushLogStream(res, true);
-        return res;
+        contexts: usedContexts,
+        abortSignal,
+        journal,
       })
+        .then((res) => {
+          pushLogStream(res, true);
+          return res;
+        })
+        .catch((error) => {
+          agent.emit("error", { contextId: ctxState.id, error });
+          throw error;
+        })
     );
   }
 
@@ -1033,6 +2787,7 @@ function createContextStreamHandler({
       logger,
       state: ctxState,
       workingMemory,
+      contexts: usedContexts,
       outputs,
       outputRef,
     });
@@ -1125,6 +2880,37 @@ function createContextStreamHandler({
         break;
       }
 
+      // Call the protocol could not parse, such as an invalid final response
+      case "parse_error": {
+        if (!el.done) break;
+
+        const ref = getOrCreateRef(el.index, {
+          ref: "action_call",
+        });
+
+        const call: ActionCall = {
+          ...ref,
+          name: el.attributes.name,
+          content: el.content.join(""),
+          data: undefined,
+        };
+
+        logger.error("agent:action", "Failed to parse call", {
+          name: call.name,
+          error: el.attributes.error,
+        });
+
+        pushLogStream(call, true);
+        pushLogStream(
+          createActionErrorResult(
+            call,
+            toActionError(new ParsingError(new Error(el.attributes.error)))
+          ),
+          true
+        );
+        break;
+      }
+
       case "finalize": {
         if (el.done) {
           logger.debug("agent:finalize", "Model requested to finalize flow");
@@ -1143,36 +2929,3 @@ function createContextStreamHandler({
     handler,
   };
 }
-
-function trimWorkingMemory(workingMemory: WorkingMemory) {
-  const MAX_MEMORY_ITEMS = 50; // Keep last 50 items of each type
-  const MAX_UNPROCESSED_ITEMS = 20; // Keep last 20 unprocessed items
-
-  // Keep all unprocessed items plus some history
-  workingMemory.results = [
-    ...workingMemory.results
-      .filter((r) => !r.processed)
-      .slice(-MAX_UNPROCESSED_ITEMS),
-    ...workingMemory.results
-      .filter((r) => r.processed)
-      .slice(-MAX_MEMORY_ITEMS),
-  ];
-
-  workingMemory.outputs = [
-    ...workingMemory.outputs
-      .filter((o) => !o.processed)
-      .slice(-MAX_UNPROCESSED_ITEMS),
-    ...workingMemory.outputs
-      .filter((o) => o.processed)
-      .slice(-MAX_MEMORY_ITEMS),
-  ];
-
-  // Keep recent history for context
-  workingMemory.thoughts = workingMemory.thoughts.slice(-MAX_MEMORY_ITEMS);
-  workingMemory.calls = workingMemory.calls.slice(-MAX_MEMORY_ITEMS);
-
-  // Also trim inputs once they're all processed
-  if (workingMemory.inputs.every((i) => i.processed)) {
-    workingMemory.inputs = workingMemory.inputs.slice(-MAX_MEMORY_ITEMS);
-  }
-}
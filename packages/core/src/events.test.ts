@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+import { createEventBus, type EventBus } from "./events";
+import { Logger } from "./logger";
+import { LogLevel } from "./types";
+
+describe("EventBus", () => {
+  let bus: EventBus;
+  let logger: Logger;
+
+  beforeEach(() => {
+    logger = new Logger({ level: LogLevel.ERROR });
+    bus = createEventBus(
+      {
+        "game:move": z.object({ x: z.number(), y: z.number() }),
+      },
+      logger
+    );
+  });
+
+  it("should dispatch events to subscribed handlers", () => {
+    const handler = vi.fn();
+    bus.on("run:step", handler);
+
+    bus.emit("run:step", { contextId: "test", step: 1 });
+
+    expect(handler).toHaveBeenCalledWith({ contextId: "test", step: 1 });
+  });
+
+  it("should remove handlers with off and the returned subscription", () => {
+    const first = vi.fn();
+    const second = vi.fn();
+
+    bus.on("custom", first);
+    const unsubscribe = bus.on("custom", second);
+
+    bus.off("custom", first);
+    unsubscribe();
+    bus.emit("custom", {});
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it("should validate payloads against registered schemas", () => {
+    const errorSpy = vi.spyOn(logger, "error").mockImplementation(() => {});
+    const handler = vi.fn();
+    bus.on("game:move", handler);
+
+    expect(() => bus.emit("game:move", { x: 1 })).not.toThrow();
+    expect(handler).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      "agent:event",
+      "Invalid event payload",
+      expect.objectContaining({ event: "game:move" })
+    );
+
+    bus.emit("game:move", { x: 1, y: 2, extra: true });
+    expect(handler).toHaveBeenCalledWith({ x: 1, y: 2 });
+  });
+
+  it("should isolate failing handlers", async () => {
+    const errorSpy = vi.spyOn(logger, "error").mockImplementation(() => {});
+    const handler = vi.fn();
+
+    bus.on("custom", () => {
+      throw new Error("sync failure");
+    });
+    bus.on("custom", async () => {
+      throw new Error("async failure");
+    });
+    bus.on("custom", handler);
+
+    bus.emit("custom", { value: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(handler).toHaveBeenCalledWith({ value: 1 });
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+  });
+});
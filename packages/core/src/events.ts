@@ -0,0 +1,106 @@
+import type { z } from "zod";
+import type { Logger } from "./logger";
+import type { AgentEvents, EventHandler, Subscription } from "./types";
+
+/**
+ * Typed publish/subscribe bus used by the agent to dispatch events
+ */
+export type EventBus = {
+  /**
+   * Subscribes a handler to an event
+   * @param event - Name of the event
+   * @param handler - Handler called with the event payload
+   * @returns Function removing the handler
+   */
+  on<TEvent extends keyof AgentEvents>(
+    event: TEvent,
+    handler: EventHandler<AgentEvents[TEvent]>
+  ): Subscription;
+  on(event: string, handler: EventHandler): Subscription;
+
+  /**
+   * Removes a handler from an event
+   * @param event - Name of the event
+   * @param handler - Handler to remove
+   */
+  off<TEvent extends keyof AgentEvents>(
+    event: TEvent,
+    handler: EventHandler<AgentEvents[TEvent]>
+  ): void;
+  off(event: string, handler: EventHandler): void;
+
+  /**
+   * Emits an event, validating its payload against the registered schema.
+   * Invalid payloads are logged and not dispatched.
+   * @param event - Name of the event
+   * @param data - Event payload
+   */
+  emit<TEvent extends keyof AgentEvents>(
+    event: TEvent,
+    data: AgentEvents[TEvent]
+  ): void;
+  emit(event: string, data: any): void;
+};
+
+/**
+ * Creates a new event bus
+ * @param schemas - Record of event schemas used to validate emitted payloads
+ * @param logger - Logger used to report invalid payloads and failing handlers
+ * @returns A new EventBus instance
+ */
+export function createEventBus(
+  schemas: Record<string, z.AnyZodObject>,
+  logger: Logger
+): EventBus {
+  const handlers = new Map<string, Set<EventHandler>>();
+
+  function off(event: string, handler: EventHandler) {
+    handlers.get(event)?.delete(handler);
+  }
+
+  function dispatch(event: string, handler: EventHandler, data: any) {
+    try {
+      Promise.resolve(handler(data)).catch((error) => {
+        logger.error("agent:event", "Event handler failed", { event, error });
+      });
+    } catch (error) {
+      logger.error("agent:event", "Event handler failed", { event, error });
+    }
+  }
+
+  return {
+    on(event: string, handler: EventHandler) {
+      if (!handlers.has(event)) handlers.set(event, new Set());
+      handlers.get(event)!.add(handler);
+      return () => off(event, handler);
+    },
+
+    off,
+
+    emit(event: string, data: any) {
+      let payload = data;
+
+      if (schemas[event]) {
+        // Emitting never throws inside the agent, e.g. when a schema reuses
+        // the name of a built-in event
+        const result = schemas[event].safeParse(data);
+
+        if (!result.success) {
+          logger.error("agent:event", "Invalid event payload", {
+            event,
+            error: result.error,
+          });
+          return;
+        }
+
+        payload = result.data;
+      }
+
+      logger.trace("agent:event", event, payload);
+
+      for (const handler of handlers.get(event) ?? []) {
+        dispatch(event, handler, payload);
+      }
+    },
+  };
+}
@@ -21,6 +21,9 @@ const discordService = service({
         )
     );
   },
+  shutdown(container) {
+    container.resolve<DiscordClient>("discord").destroy();
+  },
 });
 
 const discordChannelContext = context({
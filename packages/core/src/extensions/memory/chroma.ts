@@ -4,19 +4,42 @@
 import {
   ChromaClient,
   Collection,
+  IncludeEnum,
   OpenAIEmbeddingFunction,
   type IEmbeddingFunction,
+  type Where,
 } from "chromadb";
 import { DefaultEmbeddingFunction } from "chromadb";
-import type { InferContextMemory, VectorStore } from "../../types";
+import type {
+  VectorDocument,
+  VectorFilter,
+  VectorMetadataValue,
+  VectorQueryOptions,
+  VectorQueryResult,
+  VectorStore,
+} from "../../types";
 
 /**
- * Implementation of VectorStore using ChromaDB as the backend
+ * Metadata field holding the namespace of a document, documents written
+ * before namespaces were tagged with their context id in it
+ */
+const NAMESPACE_KEY = "contextId";
+
+/** Distance functions of Chroma collections */
+type DistanceSpace = "l2" | "cosine" | "ip";
+
+/**
+ * Implementation of VectorStore using ChromaDB as the backend.
+ * All namespaces share one collection, documents are tagged with their
+ * namespace in the reserved `contextId` metadata field and their ids are
+ * prefixed with it. Documents written before namespaces keep their ids.
  */
 export class ChromaVectorStore implements VectorStore {
+  public connection?: string;
   private client: ChromaClient;
-  private collection!: Collection;
+  private collection: Promise<Collection>;
   private embedder: IEmbeddingFunction;
+  private space: DistanceSpace = "l2";
 
   /**
    * Creates a new ChromaVectorStore instance
@@ -29,104 +52,171 @@ export class ChromaVectorStore implements VectorStore {
     connection?: string,
     embedder?: IEmbeddingFunction
   ) {
+    this.connection = connection;
     this.embedder =
-      embedder || process.env.OPENAI_API_KEY
+      embedder ??
+      (process.env.OPENAI_API_KEY
         ? new OpenAIEmbeddingFunction({
             openai_api_key: process.env.OPENAI_API_KEY!,
             openai_model: "text-embedding-3-small",
           })
-        : new DefaultEmbeddingFunction();
+        : new DefaultEmbeddingFunction());
 
     this.client = new ChromaClient({
       path: connection,
     });
-    this.initCollection(collectionName);
+    this.collection = this.initCollection(collectionName);
+    // Errors surface on the first operation
+    this.collection.catch(() => {});
   }
 
   /**
-   * Initializes or retrieves the ChromaDB collection
+   * Initializes or retrieves the ChromaDB collection. Existing collections
+   * keep their distance function, new ones use cosine distances.
    * @param collectionName - Name of the collection to initialize
    */
   private async initCollection(collectionName: string) {
-    this.collection = await this.client.getOrCreateCollection({
-      name: collectionName,
-      embeddingFunction: this.embedder,
-      metadata: {
-        description: "Memory storage for AI consciousness",
-      },
-    });
+    const collection = await this.client
+      .getCollection({ name: collectionName, embeddingFunction: this.embedder })
+      .catch(() =>
+        this.client.getOrCreateCollection({
+          name: collectionName,
+          embeddingFunction: this.embedder,
+          metadata: {
+            description: "Memory storage for AI consciousness",
+            "hnsw:space": "cosine",
+          },
+        })
+      );
+
+    this.space =
+      (collection.metadata?.["hnsw:space"] as DistanceSpace | undefined) ??
+      "l2";
+
+    return collection;
+  }
+
+  private toChromaId(namespace: string, id: string) {
+    return `${namespace}:${id}`;
   }
 
   /**
-   * Adds or updates documents in the vector store
-   * @param contextId - Unique identifier for the context
-   * @param data - Array of documents to store
+   * Turns a distance into a similarity between 0 and 1, assuming normalized
+   * embeddings for squared L2 and inner product distances
    */
-  async upsert(
-    contextId: string,
-    data: InferContextMemory<any>[]
-  ): Promise<void> {
-    if (data.length === 0) return;
-
-    // Generate IDs for the documents
-    const ids = data.map((_, index) => `doc_${Date.now()}_${index}`);
-
-    // Convert documents to strings if they aren't already
-    const documents = data.map((item) =>
-      typeof item === "string" ? item : JSON.stringify(item)
-    );
-
-    await this.collection.add({
-      ids,
-      documents,
-      metadatas: [
-        {
-          contextId: contextId,
-          timestamp: Date.now(),
-        },
-      ],
+  private toScore(distance: number) {
+    const similarity = this.space === "l2" ? 1 - distance / 2 : 1 - distance;
+    return Math.min(Math.max(similarity, 0), 1);
+  }
+
+  /**
+   * Builds the where clause matching a namespace and a metadata filter
+   */
+  private toWhere(namespace: string, filter: VectorFilter = {}): Where {
+    const conditions: Where[] = [
+      { [NAMESPACE_KEY]: namespace },
+      ...Object.entries(filter).map(([key, value]) =>
+        Array.isArray(value) ? { [key]: { $in: value } } : { [key]: value }
+      ),
+    ];
+
+    return conditions.length === 1 ? conditions[0] : { $and: conditions };
+  }
+
+  /**
+   * Adds or updates documents in a namespace
+   * @param namespace - Namespace of the documents
+   * @param documents - Documents to store
+   */
+  async upsert(namespace: string, documents: VectorDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+
+    const collection = await this.collection;
+    await collection.upsert({
+      ids: documents.map((doc) => this.toChromaId(namespace, doc.id)),
+      documents: documents.map((doc) => doc.text),
+      metadatas: documents.map((doc) => ({
+        ...doc.metadata,
+        [NAMESPACE_KEY]: namespace,
+      })),
     });
   }
 
   /**
-   * Searches for similar documents in the vector store
-   * @param contextId - Context to search within
+   * Searches a namespace for the documents most similar to a query
+   * @param namespace - Namespace to search within
    * @param query - Query text to search for
-   * @returns Array of matching documents
+   * @param options - Query options
+   * @returns Matching documents, most similar first
    */
-  async query(contextId: string, query: string): Promise<any[]> {
-    const results = await this.collection.query({
+  async query(
+    namespace: string,
+    query: string,
+    { topK = 5, filter, minScore = 0 }: VectorQueryOptions = {}
+  ): Promise<VectorQueryResult[]> {
+    const collection = await this.collection;
+    const results = await collection.query({
       queryTexts: [query],
-      nResults: 5,
-      where: {
-        contextId: contextId,
-      },
+      nResults: topK,
+      where: this.toWhere(namespace, filter),
+      include: [
+        IncludeEnum.Documents,
+        IncludeEnum.Metadatas,
+        IncludeEnum.Distances,
+      ],
     });
 
-    return results.documents[0] || [];
+    const prefix = this.toChromaId(namespace, "");
+
+    return (results.ids[0] ?? [])
+      .map((id, i) => ({
+        // Documents written before namespaces keep their ids
+        id: id.startsWith(prefix) ? id.slice(prefix.length) : id,
+        text: results.documents[0]?.[i] ?? "",
+        metadata: (results.metadatas[0]?.[i] ?? {}) as Record<
+          string,
+          VectorMetadataValue
+        >,
+        score: this.toScore(results.distances?.[0]?.[i] ?? Infinity),
+      }))
+      .filter((result) => result.score >= minScore);
   }
 
   /**
-   * Creates a new index in ChromaDB
-   * @param indexName - Name of the index to create
+   * Removes documents from a namespace
+   * @param namespace - Namespace of the documents
+   * @param ids - Ids of the documents to remove
    */
-  async createIndex(indexName: string): Promise<void> {
-    await this.client.getOrCreateCollection({
-      name: indexName,
-      embeddingFunction: this.embedder,
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const collection = await this.collection;
+    await collection.delete({
+      ids: ids.flatMap((id) => [this.toChromaId(namespace, id), id]),
+      where: this.toWhere(namespace),
     });
   }
 
   /**
-   * Deletes an existing index from ChromaDB
-   * @param indexName - Name of the index to delete
+   * Counts the documents of a namespace
+   * @param namespace - Namespace to count the documents of
    */
-  async deleteIndex(indexName: string): Promise<void> {
-    await this.collection.delete({
-      where: {
-        indexName: indexName,
-      },
+  async count(namespace: string): Promise<number> {
+    const collection = await this.collection;
+    const { ids } = await collection.get({
+      where: this.toWhere(namespace),
+      include: [],
     });
+    return ids.length;
+  }
+
+  /**
+   * Removes all the documents of a namespace
+   * @param namespace - Namespace to remove
+   */
+  async deleteNamespace(namespace: string): Promise<void> {
+    const collection = await this.collection;
+    await collection.delete({ where: this.toWhere(namespace) });
   }
 }
 
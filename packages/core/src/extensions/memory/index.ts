@@ -1,2 +1,3 @@
 export * from "./mongo";
 export * from "./chroma";
+export * from "./sqlite";
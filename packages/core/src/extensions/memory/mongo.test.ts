@@ -0,0 +1,131 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  type TestContext,
+} from "vitest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { createMongoMemoryStore, type MongoMemoryStore } from "./mongo";
+import { migrateMemoryStore } from "../../memory/migrate";
+
+describe("MongoMemoryStore", () => {
+  let server: MongoMemoryServer | undefined;
+  const stores: MongoMemoryStore[] = [];
+
+  beforeAll(async () => {
+    try {
+      server = await MongoMemoryServer.create();
+    } catch (error) {
+      // The server downloads a MongoDB binary on first use
+      console.warn("Skipping MongoDB tests, the server failed to start", error);
+    }
+  }, 120_000);
+
+  afterAll(async () => {
+    await Promise.all(stores.map((store) => store.close()));
+    await server?.stop();
+  });
+
+  async function createStore(ctx: TestContext, namespace?: string) {
+    if (!server) ctx.skip();
+
+    const store = await createMongoMemoryStore({
+      uri: server!.getUri(),
+      dbName: "test",
+      namespace,
+    });
+    stores.push(store);
+    return store;
+  }
+
+  it("should store values under the keys of the framework", async (ctx) => {
+    const store = await createStore(ctx);
+    const key = "discord:channel:123:working-memory";
+
+    expect(await store.get(key)).toBeNull();
+
+    await store.set(key, { inputs: [{ id: "1" }] });
+    await store.set(key, { inputs: [{ id: "2" }] });
+    expect(await store.get(key)).toEqual({ inputs: [{ id: "2" }] });
+
+    await store.delete(key);
+    expect(await store.get(key)).toBeNull();
+  });
+
+  it("should list keys and entries by prefix", async (ctx) => {
+    const store = await createStore(ctx, "list");
+    await store.set("context:b", 2);
+    await store.set("context:a", 1);
+    await store.set("context.a", 3);
+    await store.set("episodes:a", 4);
+
+    expect(await store.keys("context:")).toEqual(["context:a", "context:b"]);
+    expect(await store.entries("context:")).toEqual([
+      ["context:a", 1],
+      ["context:b", 2],
+    ]);
+    expect(await store.keys()).toHaveLength(4);
+  });
+
+  it("should isolate namespaces", async (ctx) => {
+    const first = await createStore(ctx, "agent-1");
+    const second = await createStore(ctx, "agent-2");
+
+    await first.set("chat:1", "first");
+    await second.set("chat:1", "second");
+    await first.clear();
+
+    expect(await first.get("chat:1")).toBeNull();
+    expect(await second.get("chat:1")).toBe("second");
+    expect(await second.keys()).toEqual(["chat:1"]);
+  });
+
+  it("should migrate entries into another namespace", async (ctx) => {
+    const source = await createStore(ctx, "source");
+    const target = await createStore(ctx, "target");
+
+    await source.set("chat:1", { a: 1 });
+    await source.set("chat:2", { b: 2 });
+
+    expect(await migrateMemoryStore(source, target)).toEqual({
+      copied: 2,
+      skipped: 0,
+    });
+    expect(await target.entries()).toEqual([
+      ["chat:1", { a: 1 }],
+      ["chat:2", { b: 2 }],
+    ]);
+  });
+
+  it("should update values atomically", async (ctx) => {
+    const store = await createStore(ctx, "update");
+    const other = await createStore(ctx, "update");
+
+    const increments = Array.from({ length: 5 }, () =>
+      store.update<number>("counter", async (count) => (count ?? 0) + 1)
+    );
+    expect(await Promise.all(increments)).toEqual([1, 2, 3, 4, 5]);
+
+    let calls = 0;
+    const value = await store.update<number>("counter", async (count) => {
+      if (calls++ === 0) await other.set("counter", 10);
+      return count! * 2;
+    });
+
+    expect(calls).toBe(2);
+    expect(value).toBe(20);
+    expect(await store.getMany(["counter", "missing"])).toEqual([20, null]);
+
+    expect(await store.update("counter", () => null)).toBeNull();
+    expect(await store.keys()).toEqual([]);
+
+    await store.setMany([
+      ["a", 1],
+      ["b", 2],
+    ]);
+    await store.deleteMany(["counter", "a"]);
+    expect(await store.keys()).toEqual(["b"]);
+  });
+});
@@ -1,31 +1,91 @@
-import { Collection, MongoClient, ObjectId } from "mongodb";
+import {
+  Collection,
+  MongoClient,
+  MongoServerError,
+  type Filter,
+} from "mongodb";
+import { createKeyedMutex } from "../../memory/base";
 import type { MemoryStore } from "../../types";
 
 export interface MongoMemoryOptions {
   uri: string;
   dbName?: string;
   collectionName?: string;
+  /** Isolates the entries of an agent from the other agents sharing the collection */
+  namespace?: string;
+}
+
+/**
+ * Document holding a memory entry, the `_id` is the key prefixed with the
+ * namespace so that keys are unique per namespace
+ */
+type MemoryDocument = {
+  _id: string;
+  namespace: string | null;
+  key: string;
+  value: unknown;
+  updatedAt: Date;
+  /** Incremented on each write, updates only apply to the version they read */
+  version: number;
+};
+
+/** Attempts of an update before giving up on concurrent writers */
+const MAX_UPDATE_ATTEMPTS = 10;
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
 export class MongoMemoryStore implements MemoryStore {
   private client: MongoClient;
-  private collection: Collection | null = null;
+  private collection: Collection<MemoryDocument> | null = null;
   private readonly dbName: string;
   private readonly collectionName: string;
+  private readonly namespace: string | null;
+  private readonly exclusive = createKeyedMutex();
 
   constructor(options: MongoMemoryOptions) {
     this.client = new MongoClient(options.uri);
     this.dbName = options.dbName || "dreams_memory";
     this.collectionName = options.collectionName || "conversations";
+    this.namespace = options.namespace ?? null;
   }
 
   /**
-   * Initialize the MongoDB connection
+   * Initialize the MongoDB connection and the index used by prefix scans
    */
   async initialize(): Promise<void> {
     await this.client.connect();
     const db = this.client.db(this.dbName);
-    this.collection = db.collection(this.collectionName);
+    this.collection = db.collection<MemoryDocument>(this.collectionName);
+    await this.collection.createIndex(
+      { namespace: 1, key: 1 },
+      { name: "namespace_key" }
+    );
+  }
+
+  private getCollection() {
+    if (!this.collection) throw new Error("MongoDB not initialized");
+    return this.collection;
+  }
+
+  private getId(key: string) {
+    return this.namespace === null ? key : `${this.namespace}:${key}`;
+  }
+
+  /**
+   * Filter matching the entries of the namespace whose key starts with a prefix
+   */
+  private getFilter(prefix: string): Filter<MemoryDocument> {
+    return prefix
+      ? {
+          namespace: this.namespace,
+          // Anchored regular expressions are resolved with the index
+          key: { $regex: `^${escapeRegExp(prefix)}` },
+        }
+      : { namespace: this.namespace };
   }
 
   /**
@@ -34,25 +94,29 @@ export class MongoMemoryStore implements MemoryStore {
    * @returns The stored value or null if not found
    */
   async get<T>(key: string): Promise<T | null> {
-    if (!this.collection) throw new Error("MongoDB not initialized");
-
-    const doc = await this.collection.findOne({ _id: new ObjectId(key) });
+    const doc = await this.getCollection().findOne({ _id: this.getId(key) });
     if (!doc) return null;
 
     return doc.value as T;
   }
 
   /**
-   * Stores a value in the store
+   * Stores a value in the store, replacing the previous value
    * @param key - Key to store under
    * @param value - Value to store
    */
   async set(key: string, value: any): Promise<void> {
-    if (!this.collection) throw new Error("MongoDB not initialized");
-
-    await this.collection.updateOne(
-      { _id: new ObjectId(key) },
-      { $set: { value } },
+    await this.getCollection().updateOne(
+      { _id: this.getId(key) },
+      {
+        $set: {
+          namespace: this.namespace,
+          key,
+          value,
+          updatedAt: new Date(),
+        },
+        $inc: { version: 1 },
+      },
       { upsert: true }
     );
   }
@@ -62,18 +126,156 @@ export class MongoMemoryStore implements MemoryStore {
    * @param key - Key to remove
    */
   async delete(key: string): Promise<void> {
-    if (!this.collection) throw new Error("MongoDB not initialized");
-
-    await this.collection.deleteOne({ _id: new ObjectId(key) });
+    await this.getCollection().deleteOne({ _id: this.getId(key) });
   }
 
   /**
-   * Removes all entries from the store
+   * Removes all entries of the namespace from the store
    */
   async clear(): Promise<void> {
-    if (!this.collection) throw new Error("MongoDB not initialized");
+    await this.getCollection().deleteMany({ namespace: this.namespace });
+  }
+
+  /**
+   * Lists the stored keys
+   * @param prefix - Only lists the keys starting with this prefix
+   * @returns The matching keys, sorted
+   */
+  async keys(prefix = ""): Promise<string[]> {
+    const docs = await this.getCollection()
+      .find(this.getFilter(prefix), { projection: { key: 1 } })
+      .sort({ key: 1 })
+      .toArray();
+
+    return docs.map((doc) => doc.key);
+  }
+
+  /**
+   * Lists the stored entries
+   * @param prefix - Only lists the entries whose key starts with this prefix
+   * @returns The matching entries as key value pairs, sorted by key
+   */
+  async entries<T = unknown>(prefix = ""): Promise<[string, T][]> {
+    const docs = await this.getCollection()
+      .find(this.getFilter(prefix), { projection: { key: 1, value: 1 } })
+      .sort({ key: 1 })
+      .toArray();
+
+    return docs.map((doc) => [doc.key, doc.value as T]);
+  }
+
+  /**
+   * Retrieves several values with a single query
+   * @param keys - Keys to look up
+   * @returns The values in the order of the keys
+   */
+  async getMany<T>(keys: string[]): Promise<(T | null)[]> {
+    const docs = await this.getCollection()
+      .find({ _id: { $in: keys.map((key) => this.getId(key)) } })
+      .toArray();
+
+    const values = new Map(docs.map((doc) => [doc.key, doc.value as T]));
+    return keys.map((key) => values.get(key) ?? null);
+  }
+
+  /**
+   * Stores several values with a single bulk write
+   * @param entries - Key value pairs to store
+   */
+  async setMany<T>(entries: [string, T][]): Promise<void> {
+    if (entries.length === 0) return;
+
+    await this.getCollection().bulkWrite(
+      entries.map(([key, value]) => ({
+        updateOne: {
+          filter: { _id: this.getId(key) },
+          update: {
+            $set: {
+              namespace: this.namespace,
+              key,
+              value,
+              updatedAt: new Date(),
+            },
+            $inc: { version: 1 },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  /**
+   * Removes several values with a single query
+   * @param keys - Keys to remove
+   */
+  async deleteMany(keys: string[]): Promise<void> {
+    await this.getCollection().deleteMany({
+      _id: { $in: keys.map((key) => this.getId(key)) },
+    });
+  }
+
+  /**
+   * Replaces a value with the result of a function of the current value.
+   * The value is only written if no other process changed it meanwhile,
+   * otherwise `fn` is called again with the new value.
+   * @param key - Key to update
+   * @param fn - Computes the new value from the current one, null removes
+   * the key
+   * @returns The new value
+   */
+  update<T>(key: string, fn: (value: T | null) => T | Promise<T>): Promise<T> {
+    return this.exclusive(key, async () => {
+      const collection = this.getCollection();
+      const _id = this.getId(key);
+
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const doc = await collection.findOne({ _id });
+        const value = await fn(doc ? (doc.value as T) : null);
+
+        if (value === null) {
+          if (!doc) return value;
+
+          const { deletedCount } = await collection.deleteOne({
+            _id,
+            version: doc.version ?? { $exists: false },
+          });
+          if (deletedCount === 1) return value;
+          continue;
+        }
+
+        if (doc) {
+          // Documents written before versioning have no version field
+          const { matchedCount } = await collection.updateOne(
+            { _id, version: doc.version ?? { $exists: false } },
+            { $set: { value, updatedAt: new Date() }, $inc: { version: 1 } }
+          );
+          if (matchedCount === 1) return value;
+          continue;
+        }
+
+        try {
+          await collection.insertOne({
+            _id,
+            namespace: this.namespace,
+            key,
+            value,
+            updatedAt: new Date(),
+            version: 1,
+          });
+          return value;
+        } catch (error) {
+          if (
+            !(error instanceof MongoServerError) ||
+            error.code !== DUPLICATE_KEY_ERROR
+          ) {
+            throw error;
+          }
+        }
+      }
 
-    await this.collection.deleteMany({});
+      throw new Error(`Failed to update "${key}", it kept changing`);
+    });
   }
 
   /**
@@ -91,7 +293,7 @@ export class MongoMemoryStore implements MemoryStore {
  */
 export async function createMongoMemoryStore(
   options: MongoMemoryOptions
-): Promise<MemoryStore> {
+): Promise<MongoMemoryStore> {
   const store = new MongoMemoryStore(options);
   await store.initialize();
   return store;
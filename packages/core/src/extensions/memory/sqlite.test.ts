@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createSqliteMemoryStore,
+  type SqliteDatabase,
+  type SqliteMemoryStore,
+} from "./sqlite";
+import { migrateMemoryStore } from "../../memory/migrate";
+import type { MemoryStore } from "../../types";
+
+// Optional driver, the tests are skipped without it
+const driver = "better-sqlite3";
+const Database: (new (path: string) => SqliteDatabase) | undefined =
+  await import(driver).then(
+    ({ default: Database }) => Database,
+    () => undefined
+  );
+
+function createMapStore(): MemoryStore {
+  const data = new Map<string, any>();
+  return {
+    async get(key) {
+      return data.get(key) ?? null;
+    },
+    async set(key, value) {
+      data.set(key, value);
+    },
+    async delete(key) {
+      data.delete(key);
+    },
+    async clear() {
+      data.clear();
+    },
+    async keys(prefix = "") {
+      return Array.from(data.keys()).filter((key) => key.startsWith(prefix));
+    },
+  };
+}
+
+describe.skipIf(!Database)("SqliteMemoryStore", () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "daydreams-sqlite-"));
+    path = join(directory, "memory.db");
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should store values across restarts", async () => {
+    const store = await createSqliteMemoryStore({ path });
+    await store.set("context:chat:1", { inputs: [{ id: "1" }], count: 2 });
+    await store.set("context:chat:1", { inputs: [], count: 3 });
+    await store.close();
+
+    const reopened = await createSqliteMemoryStore({ path });
+    expect(await reopened.get<object>("context:chat:1")).toEqual({
+      inputs: [],
+      count: 3,
+    });
+    expect(await reopened.get("missing")).toBeNull();
+
+    await reopened.delete("context:chat:1");
+    expect(await reopened.get("context:chat:1")).toBeNull();
+    await reopened.close();
+  });
+
+  it("should list keys by prefix", async () => {
+    const store = await createSqliteMemoryStore({ path: ":memory:" });
+    await store.set("context:b", 1);
+    await store.set("context:a", 2);
+    await store.set("episodes:a", 3);
+    await store.set("context_", 4);
+
+    expect(await store.keys("context:")).toEqual(["context:a", "context:b"]);
+    expect(await store.keys()).toHaveLength(4);
+    await store.close();
+  });
+
+  it("should isolate prefixed stores sharing a database", async () => {
+    const database = new Database!(":memory:");
+    const first = await createSqliteMemoryStore({ database, prefix: "a:" });
+    const second = await createSqliteMemoryStore({ database, prefix: "b:" });
+
+    await first.set("key", "first");
+    await second.set("key", "second");
+    await first.clear();
+
+    expect(await first.get("key")).toBeNull();
+    expect(await second.get<string>("key")).toBe("second");
+    expect(await second.keys()).toEqual(["key"]);
+    database.close();
+  });
+
+  it("should expire entries after their ttl", async () => {
+    const store: SqliteMemoryStore = await createSqliteMemoryStore({
+      path: ":memory:",
+      ttl: 60_000,
+    });
+
+    await store.set("short", 1, { ttl: -1 });
+    await store.set("long", 2);
+    await store.set("other", 3, { ttl: -1 });
+
+    expect(await store.keys()).toEqual(["long"]);
+    expect(await store.get("short")).toBeNull();
+    expect(await store.get<number>("long")).toBe(2);
+    expect(await store.purge()).toBe(0);
+    await store.close();
+  });
+
+  it("should write several entries in a transaction", async () => {
+    const store = await createSqliteMemoryStore({ path: ":memory:" });
+
+    await store.setMany([
+      ["a", 1],
+      ["b", 2],
+    ]);
+    expect(await store.getMany<number>(["b", "missing", "a"])).toEqual([
+      2,
+      null,
+      1,
+    ]);
+
+    // The circular value fails to serialize and rolls back the batch
+    const circular: any = {};
+    circular.self = circular;
+    await expect(
+      store.setMany([
+        ["c", 3],
+        ["d", circular],
+      ])
+    ).rejects.toThrow();
+    expect(await store.keys()).toEqual(["a", "b"]);
+
+    await store.deleteMany(["a", "b"]);
+    expect(await store.keys()).toEqual([]);
+    await store.close();
+  });
+
+  it("should update values atomically", async () => {
+    const database = new Database!(":memory:");
+    const store = await createSqliteMemoryStore({ database });
+    const other = await createSqliteMemoryStore({ database });
+
+    const increments = Array.from({ length: 5 }, () =>
+      store.update<number>("counter", async (count) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return (count ?? 0) + 1;
+      })
+    );
+    expect(await Promise.all(increments)).toEqual([1, 2, 3, 4, 5]);
+
+    // Another store changes the value while the update runs
+    let calls = 0;
+    const value = await store.update<number>("counter", async (count) => {
+      if (calls++ === 0) await other.set("counter", 10);
+      return count! * 2;
+    });
+
+    expect(calls).toBe(2);
+    expect(value).toBe(20);
+    expect(await store.get<number>("counter")).toBe(20);
+
+    expect(await store.update("counter", () => null)).toBeNull();
+    expect(await store.keys()).toEqual([]);
+    database.close();
+  });
+
+  it("should migrate entries between stores", async () => {
+    const source = createMapStore();
+    await source.set("context:1", { a: 1 });
+    await source.set("context:2", { b: 2 });
+    await source.set("other", true);
+
+    const store = await createSqliteMemoryStore({ path });
+    await store.set("context:2", "kept");
+
+    expect(
+      await migrateMemoryStore(source, store, {
+        prefix: "context:",
+        overwrite: false,
+      })
+    ).toEqual({ copied: 1, skipped: 1 });
+    expect(await store.get<object>("context:1")).toEqual({ a: 1 });
+    expect(await store.get<string>("context:2")).toBe("kept");
+    expect(await store.get("other")).toBeNull();
+
+    const target = createMapStore();
+    await migrateMemoryStore(store, target);
+    expect(await target.keys!()).toEqual(["context:1", "context:2"]);
+    await store.close();
+
+    await expect(
+      migrateMemoryStore({ ...source, keys: undefined }, target)
+    ).rejects.toThrow("can't list its keys");
+  });
+});
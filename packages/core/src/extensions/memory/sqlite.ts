@@ -0,0 +1,354 @@
+import { createKeyedMutex } from "../../memory/base";
+import type { MemoryStore } from "../../types";
+
+/**
+ * Prepared statement of a SQLite driver
+ */
+export interface SqliteStatement {
+  run(...params: any[]): { changes: number };
+  get(...params: any[]): unknown;
+  all(...params: any[]): unknown[];
+}
+
+/**
+ * Subset of a SQLite database used by the store, implemented by `bun:sqlite`
+ * and `better-sqlite3`
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+  close(): unknown;
+}
+
+export interface SqliteMemoryOptions {
+  /** Database file, ":memory:" keeps the database in memory */
+  path?: string;
+  /** Database opened by the caller, used instead of `path` */
+  database?: SqliteDatabase;
+  /** Table holding the entries, defaults to "memory" */
+  tableName?: string;
+  /** Prefix added to every key, lets several agents share a database */
+  prefix?: string;
+  /** Default time to live of the entries in milliseconds, entries never expire by default */
+  ttl?: number;
+}
+
+export interface SqliteSetOptions {
+  /** Time to live of the entry in milliseconds, overrides the store default */
+  ttl?: number;
+}
+
+type Row = { value: string; expires_at: number | null };
+
+/** Attempts of an update before giving up on concurrent writers */
+const MAX_UPDATE_ATTEMPTS = 10;
+
+/**
+ * Opens a database file with `bun:sqlite` on Bun and `better-sqlite3` elsewhere
+ */
+async function openDatabase(path: string): Promise<SqliteDatabase> {
+  if (typeof Bun !== "undefined") {
+    const { Database } = await import("bun:sqlite");
+    return new Database(path, { create: true });
+  }
+
+  // Optional dependency, only needed outside of Bun
+  const driver = "better-sqlite3";
+  try {
+    const { default: Database } = await import(driver);
+    return new Database(path);
+  } catch (error) {
+    throw new Error(
+      `Opening a SQLite database requires Bun or the "${driver}" package`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Implementation of MemoryStore persisting entries in a SQLite table.
+ * Values are stored as JSON, each write is a single atomic statement.
+ */
+export class SqliteMemoryStore implements MemoryStore {
+  private database: SqliteDatabase | null = null;
+  private readonly tableName: string;
+  private readonly prefix: string;
+  private readonly exclusive = createKeyedMutex();
+
+  constructor(private readonly options: SqliteMemoryOptions) {
+    if (!options.path && !options.database) {
+      throw new Error("SqliteMemoryStore requires a path or a database");
+    }
+
+    this.tableName = options.tableName ?? "memory";
+    this.prefix = options.prefix ?? "";
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.tableName)) {
+      throw new Error(`Invalid SQLite table name: ${this.tableName}`);
+    }
+  }
+
+  /**
+   * Opens the database and creates the table
+   */
+  async initialize(): Promise<void> {
+    const database =
+      this.options.database ?? (await openDatabase(this.options.path!));
+
+    if (this.options.path && this.options.path !== ":memory:") {
+      // Readers don't block the writer and a crash never corrupts the file
+      database.exec("PRAGMA journal_mode = WAL");
+    }
+
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        expires_at INTEGER
+      )
+    `);
+    database.exec(
+      `CREATE INDEX IF NOT EXISTS ${this.tableName}_expires_at ON ${this.tableName} (expires_at)`
+    );
+
+    this.database = database;
+    await this.purge();
+  }
+
+  private get db() {
+    if (!this.database) throw new Error("SQLite not initialized");
+    return this.database;
+  }
+
+  /**
+   * Retrieves a value from the store
+   * @param key - Key to look up
+   * @returns The stored value or null if not found or expired
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const row = this.db
+      .prepare(`SELECT value, expires_at FROM ${this.tableName} WHERE key = ?`)
+      .get(this.prefix + key) as Row | null | undefined;
+
+    if (!row) return null;
+
+    if (row.expires_at !== null && row.expires_at <= Date.now()) {
+      await this.purge();
+      return null;
+    }
+
+    return JSON.parse(row.value) as T;
+  }
+
+  /**
+   * Stores a value in the store
+   * @param key - Key to store under
+   * @param value - Value to store, it must be serializable to JSON
+   * @param options - Time to live of the entry
+   */
+  async set<T>(
+    key: string,
+    value: T,
+    { ttl = this.options.ttl }: SqliteSetOptions = {}
+  ): Promise<void> {
+    this.write(key, value, ttl);
+  }
+
+  private write(key: string, value: unknown, ttl = this.options.ttl) {
+    this.db
+      .prepare(
+        `INSERT INTO ${this.tableName} (key, value, expires_at) VALUES (?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`
+      )
+      .run(this.prefix + key, JSON.stringify(value), this.getExpiry(ttl));
+  }
+
+  private getExpiry(ttl: number | undefined) {
+    return ttl === undefined ? null : Date.now() + ttl;
+  }
+
+  /**
+   * Runs statements in a transaction, they are all applied or none is
+   */
+  private transaction(fn: () => void) {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      fn();
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a specific entry from the store
+   * @param key - Key to remove
+   */
+  async delete(key: string): Promise<void> {
+    this.db
+      .prepare(`DELETE FROM ${this.tableName} WHERE key = ?`)
+      .run(this.prefix + key);
+  }
+
+  /**
+   * Removes all entries of the store, entries of other prefixes are kept
+   */
+  async clear(): Promise<void> {
+    this.db
+      .prepare(
+        `DELETE FROM ${this.tableName} WHERE substr(key, 1, length(?)) = ?`
+      )
+      .run(this.prefix, this.prefix);
+  }
+
+  /**
+   * Lists the keys of the entries that have not expired
+   * @param prefix - Only lists the keys starting with this prefix
+   * @returns The matching keys, sorted
+   */
+  async keys(prefix = ""): Promise<string[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT key FROM ${this.tableName}
+         WHERE substr(key, 1, length(?)) = ? AND (expires_at IS NULL OR expires_at > ?)
+         ORDER BY key`
+      )
+      .all(this.prefix + prefix, this.prefix + prefix, Date.now()) as {
+      key: string;
+    }[];
+
+    return rows.map((row) => row.key.slice(this.prefix.length));
+  }
+
+  /**
+   * Retrieves several values at once
+   * @param keys - Keys to look up
+   * @returns The values in the order of the keys
+   */
+  async getMany<T>(keys: string[]): Promise<(T | null)[]> {
+    const values: (T | null)[] = [];
+    for (const key of keys) values.push(await this.get<T>(key));
+    return values;
+  }
+
+  /**
+   * Stores several values in a single transaction
+   * @param entries - Key value pairs to store
+   */
+  async setMany<T>(entries: [string, T][]): Promise<void> {
+    this.transaction(() => {
+      for (const [key, value] of entries) this.write(key, value);
+    });
+  }
+
+  /**
+   * Removes several values in a single transaction
+   * @param keys - Keys to remove
+   */
+  async deleteMany(keys: string[]): Promise<void> {
+    const statement = this.db.prepare(
+      `DELETE FROM ${this.tableName} WHERE key = ?`
+    );
+    this.transaction(() => {
+      for (const key of keys) statement.run(this.prefix + key);
+    });
+  }
+
+  /**
+   * Replaces a value with the result of a function of the current value.
+   * The value is only written if no other process changed it meanwhile,
+   * otherwise `fn` is called again with the new value.
+   * @param key - Key to update
+   * @param fn - Computes the new value from the current one, null removes
+   * the key
+   * @returns The new value
+   */
+  update<T>(key: string, fn: (value: T | null) => T | Promise<T>): Promise<T> {
+    return this.exclusive(key, async () => {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const row = this.db
+          .prepare(
+            `SELECT value, expires_at FROM ${this.tableName} WHERE key = ?`
+          )
+          .get(this.prefix + key) as Row | null | undefined;
+
+        const expired =
+          !!row && row.expires_at !== null && row.expires_at <= Date.now();
+        const value = await fn(
+          row && !expired ? (JSON.parse(row.value) as T) : null
+        );
+
+        if (value === null) {
+          if (!row) return value;
+
+          const { changes } = this.db
+            .prepare(
+              `DELETE FROM ${this.tableName} WHERE key = ? AND value = ?`
+            )
+            .run(this.prefix + key, row.value);
+
+          if (changes === 1) return value;
+          continue;
+        }
+
+        const expiresAt = this.getExpiry(this.options.ttl);
+        const { changes } = row
+          ? this.db
+              .prepare(
+                `UPDATE ${this.tableName} SET value = ?, expires_at = ? WHERE key = ? AND value = ?`
+              )
+              .run(
+                JSON.stringify(value),
+                expiresAt,
+                this.prefix + key,
+                row.value
+              )
+          : this.db
+              .prepare(
+                `INSERT INTO ${this.tableName} (key, value, expires_at) VALUES (?, ?, ?)
+                 ON CONFLICT (key) DO NOTHING`
+              )
+              .run(this.prefix + key, JSON.stringify(value), expiresAt);
+
+        if (changes === 1) return value;
+      }
+
+      throw new Error(`Failed to update "${key}", it kept changing`);
+    });
+  }
+
+  /**
+   * Removes the expired entries
+   * @returns The number of removed entries
+   */
+  async purge(): Promise<number> {
+    const expired = this.db
+      .prepare(
+        `DELETE FROM ${this.tableName} WHERE expires_at IS NOT NULL AND expires_at <= ? RETURNING key`
+      )
+      .all(Date.now());
+    return expired.length;
+  }
+
+  /**
+   * Closes the database, unless it was opened by the caller
+   */
+  async close(): Promise<void> {
+    if (!this.options.database) this.database?.close();
+    this.database = null;
+  }
+}
+
+/**
+ * Creates a new SQLite-backed memory store
+ * @param options - SQLite options
+ * @returns A MemoryStore implementation using SQLite for storage
+ */
+export async function createSqliteMemoryStore(
+  options: SqliteMemoryOptions
+): Promise<SqliteMemoryStore> {
+  const store = new SqliteMemoryStore(options);
+  await store.initialize();
+  return store;
+}
@@ -20,6 +20,9 @@ const telegramService = service({
     const telegrafInfo = await telegraf.telegram.getMe();
     console.log(telegrafInfo);
   },
+  async shutdown(container) {
+    container.resolve<Telegraf>("telegraf").stop();
+  },
 });
 
 const telegramChat = context({
@@ -6,6 +6,7 @@ import type {
   Log,
   Output,
   OutputRef,
+  ScoredEpisode,
   WorkingMemory,
   XMLElement,
 } from "./types";
@@ -162,6 +163,23 @@ export function formatMsg(msg: Msg) {
   });
 }
 
+/**
+ * Formats a recalled episode into XML format
+ * @param episode - The episode to format
+ * @returns XML string representation of the episode
+ */
+export function formatEpisode(episode: ScoredEpisode) {
+  return formatXml({
+    tag: "episode",
+    params: { score: episode.score.toFixed(2) },
+    content: [
+      { tag: "observation", content: episode.observation },
+      { tag: "thoughts", content: episode.thoughts },
+      { tag: "result", content: episode.result },
+    ],
+  });
+}
+
 export function formatContextLog(i: Log) {
   switch (i.ref) {
     case "input":
@@ -202,16 +220,42 @@ export function formatContextLog(i: Log) {
         content: JSON.stringify(i.data),
       });
     case "action_result":
+      if (i.error) {
+        return formatXml({
+          tag: "action_result",
+          params: { name: i.name, callId: i.callId, error: i.error.type },
+          content: i.error.message,
+        });
+      }
       return formatXml({
         tag: "action_result",
         params: { name: i.name, callId: i.callId },
         content: i.formatted ?? JSON.stringify(i.data),
       });
+    case "cancellation":
+      return formatXml({
+        tag: "cancellation",
+        content: i.reason ?? "",
+      });
+    case "run_limit":
+      return formatXml({
+        tag: "run_limit",
+        params: { reason: i.reason, limit: i.limit },
+        content: `${i.value}/${i.max}`,
+      });
     default:
       throw new Error("invalid context");
   }
 }
 
+/**
+ * Formats context states into XML, the main context includes the processed
+ * logs of the working memory
+ * @param mainContextId - The ID of the main context
+ * @param contexts - The context states to format
+ * @param workingMemory - The working memory of the main context
+ * @returns XML string representation of the contexts
+ */
 export function formatContexts(
   mainContextId: string,
   contexts: ContextState[],
@@ -7,9 +7,13 @@ export * from "./formatters";
 export * from "./memory";
 export * from "./chains";
 export * from "./prompt";
+export * from "./protocols";
+export * from "./budget";
 export * from "./task";
+export * from "./lock";
 export * from "./context";
 export * from "./container";
+export * from "./events";
 export * from "./serviceProvider";
 export * from "./actions";
 export * from "./providers";
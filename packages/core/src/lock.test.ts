@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  createInMemoryContextLock,
+  createMemoryStoreContextLock,
+  type ContextLock,
+} from "./lock";
+import { createMemoryStore } from "./memory/base";
+import type { MemoryStore } from "./types";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe.each<[string, () => ContextLock]>([
+  ["in-memory", () => createInMemoryContextLock()],
+  [
+    "memory store",
+    () => createMemoryStoreContextLock(createMemoryStore({ shared: false })),
+  ],
+])("%s context lock", (_name, createLock) => {
+  it("should give a context to one owner at a time", async () => {
+    const lock = createLock();
+
+    const lease = await lock.acquire("chat:1", { owner: "a", ttl: 1000 });
+
+    expect(lease).toMatchObject({ contextId: "chat:1", owner: "a" });
+    expect(
+      await lock.acquire("chat:1", { owner: "b", ttl: 1000 })
+    ).toBeUndefined();
+    expect(
+      await lock.acquire("chat:2", { owner: "b", ttl: 1000 })
+    ).toBeDefined();
+
+    await lock.release(lease!);
+
+    expect(
+      await lock.acquire("chat:1", { owner: "b", ttl: 1000 })
+    ).toMatchObject({ owner: "b" });
+  });
+
+  it("should let expired leases be taken over", async () => {
+    const lock = createLock();
+
+    const lease = await lock.acquire("chat:1", { owner: "a", ttl: 10 });
+    await sleep(20);
+
+    const taken = await lock.acquire("chat:1", { owner: "b", ttl: 1000 });
+
+    expect(taken).toMatchObject({ owner: "b" });
+    expect(await lock.renew(lease!, 1000)).toBeUndefined();
+
+    // Releasing a lost lease leaves the new one
+    await lock.release(lease!);
+    expect(
+      await lock.acquire("chat:1", { owner: "c", ttl: 1000 })
+    ).toBeUndefined();
+  });
+
+  it("should extend renewed leases", async () => {
+    const lock = createLock();
+
+    const lease = await lock.acquire("chat:1", { owner: "a", ttl: 20 });
+    const renewed = await lock.renew(lease!, 1000);
+
+    expect(renewed?.token).toBe(lease!.token);
+    expect(renewed!.expiresAt).toBeGreaterThan(lease!.expiresAt);
+
+    await sleep(30);
+
+    expect(
+      await lock.acquire("chat:1", { owner: "b", ttl: 1000 })
+    ).toBeUndefined();
+  });
+});
+
+describe("memory store context lock", () => {
+  it("should share leases through the store", async () => {
+    const store = createMemoryStore({ shared: false });
+    const first = createMemoryStoreContextLock(store);
+    const second = createMemoryStoreContextLock(store);
+
+    const leases = await Promise.all([
+      first.acquire("chat:1", { owner: "a", ttl: 1000 }),
+      second.acquire("chat:1", { owner: "b", ttl: 1000 }),
+    ]);
+
+    expect(leases.filter((lease) => !!lease)).toHaveLength(1);
+    expect(await store.get("lock:chat:1")).toEqual(
+      leases.find((lease) => !!lease)
+    );
+  });
+
+  it("should remove the key of released leases", async () => {
+    const store = createMemoryStore({ shared: false });
+    const lock = createMemoryStoreContextLock(store);
+
+    const lease = await lock.acquire("chat:1", { owner: "a", ttl: 1000 });
+    await lock.release(lease!);
+
+    expect(await store.keys!("lock:")).toEqual([]);
+  });
+
+  it("should require a store supporting update", () => {
+    const { update, ...store } = createMemoryStore({ shared: false });
+
+    expect(() => createMemoryStoreContextLock(store as MemoryStore)).toThrow(
+      "The context lock requires a store supporting update"
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import { v7 as randomUUIDv7 } from "uuid";
+import type { MemoryStore } from "./types";
+
+/**
+ * Lease on a context held by a worker until it expires or is released.
+ */
+export type ContextLease = {
+  contextId: string;
+  /** Worker holding the lease */
+  owner: string;
+  /** Identifies this lease, a lease acquired again gets a new token */
+  token: string;
+  expiresAt: number;
+};
+
+/**
+ * Makes sure a context is run by a single worker at a time, across
+ * processes when the lock is shared. Leases expire after their ttl unless
+ * they are renewed, so a crashed worker never holds a context forever.
+ */
+export type ContextLock = {
+  /**
+   * Acquires the lease of a context
+   * @param contextId - The context to lock
+   * @param options.owner - The worker acquiring the lease
+   * @param options.ttl - Lifetime of the lease in milliseconds
+   * @returns The lease, undefined when another worker holds the context
+   */
+  acquire(
+    contextId: string,
+    options: { owner: string; ttl: number }
+  ): Promise<ContextLease | undefined>;
+
+  /**
+   * Extends a lease
+   * @param lease - The lease to extend
+   * @param ttl - New lifetime of the lease in milliseconds
+   * @returns The extended lease, undefined when the lease was lost
+   */
+  renew(lease: ContextLease, ttl: number): Promise<ContextLease | undefined>;
+
+  /**
+   * Releases a lease, a lease that was lost is left to its new holder
+   * @param lease - The lease to release
+   */
+  release(lease: ContextLease): Promise<void>;
+};
+
+function isHeld(lease: ContextLease | null | undefined, now = Date.now()) {
+  return !!lease && lease.expiresAt > now;
+}
+
+function createLease(
+  contextId: string,
+  { owner, ttl }: { owner: string; ttl: number }
+): ContextLease {
+  return {
+    contextId,
+    owner,
+    token: randomUUIDv7(),
+    expiresAt: Date.now() + ttl,
+  };
+}
+
+/**
+ * Creates a lock holding leases in memory, it only excludes workers of the
+ * same process.
+ * @returns A new ContextLock instance
+ */
+export function createInMemoryContextLock(): ContextLock {
+  const leases = new Map<string, ContextLease>();
+
+  return {
+    async acquire(contextId, options) {
+      if (isHeld(leases.get(contextId))) return undefined;
+
+      const lease = createLease(contextId, options);
+      leases.set(contextId, lease);
+      return lease;
+    },
+
+    async renew(lease, ttl) {
+      if (leases.get(lease.contextId)?.token !== lease.token) return undefined;
+
+      const renewed = { ...lease, expiresAt: Date.now() + ttl };
+      leases.set(lease.contextId, renewed);
+      return renewed;
+    },
+
+    async release(lease) {
+      if (leases.get(lease.contextId)?.token === lease.token) {
+        leases.delete(lease.contextId);
+      }
+    },
+  };
+}
+
+/**
+ * Creates a lock holding leases in a memory store, shared by the workers
+ * using the store. Leases are changed with the compare-and-set `update` of
+ * the store, so only one worker wins a context.
+ * @param store - The memory store holding the leases, it must support `update`
+ * @param prefix - Prefix of the lease keys
+ * @returns A new ContextLock instance
+ */
+export function createMemoryStoreContextLock(
+  store: MemoryStore,
+  prefix: string = "lock"
+): ContextLock {
+  if (!store.update) {
+    throw new Error("The context lock requires a store supporting update");
+  }
+
+  const update = store.update.bind(store);
+  const getKey = (contextId: string) => [prefix, contextId].join(":");
+
+  return {
+    async acquire(contextId, options) {
+      const lease = createLease(contextId, options);
+
+      const held = await update<ContextLease | null>(
+        getKey(contextId),
+        (current) => (isHeld(current) ? current : lease)
+      );
+
+      return held?.token === lease.token ? lease : undefined;
+    },
+
+    async renew(lease, ttl) {
+      const expiresAt = Date.now() + ttl;
+
+      const held = await update<ContextLease | null>(
+        getKey(lease.contextId),
+        (current) =>
+          current?.token === lease.token ? { ...current, expiresAt } : current
+      );
+
+      return held?.token === lease.token ? held : undefined;
+    },
+
+    async release(lease) {
+      // The key is removed, a lease taken over meanwhile is kept
+      await update<ContextLease | null>(getKey(lease.contextId), (current) =>
+        current?.token === lease.token ? null : current
+      );
+    },
+  };
+}
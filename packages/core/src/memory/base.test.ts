@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryStore, updateMemory } from "./base";
+import type { MemoryStore } from "../types";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("memory store", () => {
+  it("should keep the entries of each store apart", async () => {
+    const first = createMemoryStore();
+    const second = createMemoryStore();
+
+    await first.set("chat:1", { owner: "first" });
+
+    expect(await second.get("chat:1")).toBeNull();
+    expect(await second.keys!()).toEqual([]);
+  });
+
+  it("should share entries between stores in shared mode", async () => {
+    const first = createMemoryStore({ shared: true });
+    const second = createMemoryStore({ shared: true });
+
+    await first.set("shared:1", "value");
+
+    expect(await second.get("shared:1")).toBe("value");
+    expect(await createMemoryStore().get("shared:1")).toBeNull();
+    await second.delete("shared:1");
+  });
+
+  it("should export and import snapshots", async () => {
+    const store = createMemoryStore();
+    const memory = { inputs: [{ id: "1", timestamp: 1 }] };
+
+    store.import({ "chat:1": memory, "chat:2": "value" });
+    memory.inputs.push({ id: "2", timestamp: 2 });
+
+    expect(await store.get("chat:1")).toEqual({
+      inputs: [{ id: "1", timestamp: 1 }],
+    });
+
+    await store.set("chat:3", { nested: { ok: true } });
+    const snapshot = store.export();
+    expect(snapshot).toEqual({
+      "chat:1": { inputs: [{ id: "1", timestamp: 1 }] },
+      "chat:2": "value",
+      "chat:3": { nested: { ok: true } },
+    });
+
+    const restored = createMemoryStore();
+    restored.import(JSON.stringify(snapshot));
+    expect(restored.export()).toEqual(snapshot);
+
+    restored.import({});
+    expect(await restored.keys!()).toEqual([]);
+  });
+
+  it("should read, write and delete several keys at once", async () => {
+    const store = createMemoryStore();
+
+    await store.setMany!([
+      ["batch:1", { a: 1 }],
+      ["batch:2", { b: 2 }],
+    ]);
+
+    expect(
+      await store.getMany!(["batch:2", "batch:missing", "batch:1"])
+    ).toEqual([{ b: 2 }, null, { a: 1 }]);
+    expect(await store.keys!("batch:")).toEqual(["batch:1", "batch:2"]);
+
+    await store.deleteMany!(["batch:1", "batch:2"]);
+    expect(await store.keys!("batch:")).toEqual([]);
+  });
+
+  it("should not lose concurrent updates", async () => {
+    const store = createMemoryStore();
+
+    const increments = Array.from({ length: 5 }, (_, i) =>
+      store.update!<number>("update:counter", async (count) => {
+        // Later updates finish first without serialization
+        await sleep(5 - i);
+        return (count ?? 0) + 1;
+      })
+    );
+
+    expect(await Promise.all(increments)).toEqual([1, 2, 3, 4, 5]);
+    expect(await store.get("update:counter")).toBe(5);
+  });
+
+  it("should keep updating after a failed update", async () => {
+    const store = createMemoryStore();
+
+    await expect(
+      store.update!("update:failed", async () => {
+        throw new Error("failed");
+      })
+    ).rejects.toThrow("failed");
+
+    expect(await store.get("update:failed")).toBeNull();
+    expect(await store.update!("update:failed", () => "ok")).toBe("ok");
+  });
+
+  it("should remove keys updated to null", async () => {
+    const store = createMemoryStore();
+    await store.set("update:removed", 1);
+
+    expect(await store.update!("update:removed", () => null)).toBeNull();
+    expect(await store.keys!("update:")).toEqual([]);
+  });
+
+  it("should update stores without update support", async () => {
+    const data = new Map<string, any>([["count", 1]]);
+    const store: MemoryStore = {
+      async get(key) {
+        return data.get(key) ?? null;
+      },
+      async set(key, value) {
+        data.set(key, value);
+      },
+      async delete(key) {
+        data.delete(key);
+      },
+      async clear() {
+        data.clear();
+      },
+    };
+
+    expect(
+      await updateMemory<number>(store, "count", (count) => count! + 1)
+    ).toBe(2);
+    expect(data.get("count")).toBe(2);
+  });
+});
@@ -1,5 +1,13 @@
-import type { MemoryStore, VectorStore, WorkingMemory } from "../types";
+import type {
+  LegacyVectorStore,
+  MemoryStore,
+  VectorDocument,
+  VectorQueryResult,
+  VectorStore,
+  WorkingMemory,
+} from "../types";
 import type { LanguageModelV1 } from "ai";
+import { matchesVectorFilter } from "./vector";
 /**
  * Base memory implementation providing storage and vector capabilities
  */
@@ -14,16 +22,16 @@ export type BaseMemory = {
 /**
  * Creates a new BaseMemory instance
  * @param store - Memory store implementation for conversation data
- * @param vector - Vector store implementation for embeddings
+ * @param vector - Vector store implementation for embeddings, legacy stores are wrapped with `toVectorStore`
  * @param vectorModel - Vector model implementation for embeddings
  * @returns A new BaseMemory instance
  */
 export function createMemory(
   store: MemoryStore,
-  vector: VectorStore,
+  vector: VectorStore | LegacyVectorStore,
   vectorModel?: LanguageModelV1
 ): BaseMemory {
-  return { store, vector, vectorModel };
+  return { store, vector: toVectorStore(vector), vectorModel };
 }
 
 /**
@@ -49,11 +57,95 @@ export async function getOrCreateConversationMemory(
 }
 
 /**
- * Creates a new in-memory store for conversation data
+ * Creates a function running async work one at a time per key, other keys
+ * are not blocked. Used by stores to serialize updates within the process.
+ * @returns A function running `fn` once the previous work on `key` settled
+ */
+export function createKeyedMutex() {
+  const pending = new Map<string, Promise<unknown>>();
+
+  return function exclusive<T>(key: string, fn: () => Promise<T>) {
+    const next = (pending.get(key) ?? Promise.resolve())
+      .catch(() => {})
+      .then(fn);
+
+    const settled = next.then(
+      () => {},
+      () => {}
+    );
+    pending.set(key, settled);
+    settled.then(() => {
+      if (pending.get(key) === settled) pending.delete(key);
+    });
+
+    return next;
+  };
+}
+
+/**
+ * Replaces a value of a memory store with the result of a function of the
+ * current value, atomically when the store implements `update`
+ * @param store - Memory store holding the value
+ * @param key - Key to update
+ * @param fn - Computes the new value from the current one, null if missing.
+ * Returning null removes the key.
+ * @returns The new value
+ */
+export async function updateMemory<T>(
+  store: MemoryStore,
+  key: string,
+  fn: (value: T | null) => T | Promise<T>
+): Promise<T> {
+  if (store.update) return store.update<T>(key, fn);
+
+  const value = await fn(await store.get<T>(key));
+  if (value === null) await store.delete(key);
+  else await store.set(key, value);
+  return value;
+}
+
+/**
+ * Entries of an in-memory store as plain JSON
+ */
+export type MemoryStoreSnapshot = Record<string, unknown>;
+
+export type MemoryStoreOptions = {
+  /** Shares the entries with every other store created in shared mode */
+  shared?: boolean;
+};
+
+/**
+ * In-memory store with snapshot and restore support
+ */
+export type InMemoryStore = MemoryStore & {
+  /**
+   * Copies the entries of the store
+   * @returns The entries as plain JSON
+   */
+  export(): MemoryStoreSnapshot;
+
+  /**
+   * Replaces the entries of the store
+   * @param snapshot - Entries returned by `export`, as an object or a JSON string
+   */
+  import(snapshot: MemoryStoreSnapshot | string): void;
+};
+
+const sharedData = new Map<string, any>();
+const sharedExclusive = createKeyedMutex();
+
+/**
+ * Creates a new in-memory store for conversation data, each store owns
+ * its entries unless created in shared mode
+ * @param options - Store options
  * @returns A MemoryStore implementation using a Map for storage
  */
-const data = new Map<string, any>();
-export function createMemoryStore(): MemoryStore {
+export function createMemoryStore({
+  shared = false,
+}: MemoryStoreOptions = {}): InMemoryStore {
+  const data = shared ? sharedData : new Map<string, any>();
+  const exclusive = shared ? sharedExclusive : createKeyedMutex();
+
   return {
     /**
      * Retrieves a value from the store
@@ -87,6 +179,77 @@ export function createMemoryStore(): MemoryStore {
     async set(key: string, value: any) {
       data.set(key, value);
     },
+
+    /**
+     * Lists the stored keys
+     * @param prefix - Only lists the keys starting with this prefix
+     * @returns The matching keys
+     */
+    async keys(prefix = "") {
+      return Array.from(data.keys()).filter((key) => key.startsWith(prefix));
+    },
+
+    /**
+     * Retrieves several values at once
+     * @param keys - Keys to look up
+     * @returns The values in the order of the keys
+     */
+    async getMany(keys: string[]) {
+      return keys.map((key) => data.get(key) ?? null);
+    },
+
+    /**
+     * Stores several values at once
+     * @param entries - Key value pairs to store
+     */
+    async setMany(entries: [string, any][]) {
+      for (const [key, value] of entries) data.set(key, value);
+    },
+
+    /**
+     * Removes several values at once
+     * @param keys - Keys to remove
+     */
+    async deleteMany(keys: string[]) {
+      for (const key of keys) data.delete(key);
+    },
+
+    /**
+     * Replaces a value with the result of a function of the current value
+     * @param key - Key to update
+     * @param fn - Computes the new value from the current one, null removes
+     * the key
+     * @returns The new value
+     */
+    update(key: string, fn: (value: any) => any) {
+      return exclusive(key, async () => {
+        const value = await fn(data.get(key) ?? null);
+        if (value === null) data.delete(key);
+        else data.set(key, value);
+        return value;
+      });
+    },
+
+    /**
+     * Copies the entries of the store
+     * @returns The entries as plain JSON
+     */
+    export() {
+      return JSON.parse(JSON.stringify(Object.fromEntries(data)));
+    },
+
+    /**
+     * Replaces the entries of the store
+     * @param snapshot - Entries returned by `export`
+     */
+    import(snapshot: MemoryStoreSnapshot | string) {
+      const entries: MemoryStoreSnapshot = JSON.parse(
+        typeof snapshot === "string" ? snapshot : JSON.stringify(snapshot)
+      );
+
+      data.clear();
+      for (const [key, value] of Object.entries(entries)) data.set(key, value);
+    },
   };
 }
 
@@ -98,37 +261,124 @@ export function createVectorStore(): VectorStore {
   return {
     /**
      * No-op implementation of vector store upsert
-     * @param contextId - Context ID (unused)
-     * @param data - Data to store (unused)
+     * @param namespace - Namespace (unused)
+     * @param documents - Documents to store (unused)
      */
-    upsert(contextId: string, data: any[]) {
+    upsert(namespace: string, documents: VectorDocument[]) {
       return Promise.resolve();
     },
 
     /**
      * No-op implementation of vector store query
-     * @param contextId - Context ID (unused)
+     * @param namespace - Namespace (unused)
      * @param query - Query string (unused)
      * @returns Empty array
      */
-    query(contextId: string, query: string) {
+    query(namespace: string, query: string) {
       return Promise.resolve([]);
     },
 
     /**
-     * No-op implementation of index creation
-     * @param indexName - Name of index to create (unused)
+     * No-op implementation of document deletion
+     * @param namespace - Namespace (unused)
+     * @param ids - Ids of the documents (unused)
      */
-    createIndex(indexName: string) {
+    delete(namespace: string, ids: string[]) {
       return Promise.resolve();
     },
 
     /**
-     * No-op implementation of index deletion
-     * @param indexName - Name of index to delete (unused)
+     * No-op implementation of document count
+     * @param namespace - Namespace (unused)
+     * @returns Zero
+     */
+    count(namespace: string) {
+      return Promise.resolve(0);
+    },
+
+    /**
+     * No-op implementation of namespace deletion
+     * @param namespace - Namespace to delete (unused)
      */
-    deleteIndex(indexName: string) {
+    deleteNamespace(namespace: string) {
       return Promise.resolve();
     },
   };
 }
+
+function isLegacyVectorStore(
+  store: VectorStore | LegacyVectorStore
+): store is LegacyVectorStore {
+  return !("count" in store) && "deleteIndex" in store;
+}
+
+/**
+ * Converts a hit of a legacy vector store into a document
+ */
+function toVectorDocument(hit: unknown, index: number): VectorDocument {
+  if (typeof hit === "string") return { id: String(index), text: hit };
+
+  if (typeof hit === "object" && hit !== null && "text" in hit) {
+    const { id, text, metadata } = hit as Partial<VectorDocument>;
+    return { id: id ?? String(index), text: String(text), metadata };
+  }
+
+  return { id: String(index), text: JSON.stringify(hit) };
+}
+
+/**
+ * Adapts a store implementing the previous vector store interface, stores
+ * implementing {@link VectorStore} are returned as is.
+ *
+ * Legacy stores don't return scores, hits are scored by rank from 1 down so
+ * that their order is kept. Filters are applied to the metadata of the hits,
+ * deleting and counting documents are not supported.
+ * @param store - Vector store to adapt
+ * @returns A VectorStore implementation
+ */
+export function toVectorStore(
+  store: VectorStore | LegacyVectorStore
+): VectorStore {
+  if (!isLegacyVectorStore(store)) return store;
+
+  const unsupported = (method: string) =>
+    Promise.reject(new Error(`Legacy vector stores don't support ${method}()`));
+
+  return {
+    connection: store.connection,
+
+    upsert(namespace, documents) {
+      return store.upsert(namespace, documents);
+    },
+
+    async query(namespace, query, { topK = 5, filter, minScore = 0 } = {}) {
+      const hits = await store.query(namespace, query);
+
+      return hits
+        .map(
+          (hit, i): VectorQueryResult => ({
+            ...toVectorDocument(hit, i),
+            score: (hits.length - i) / hits.length,
+          })
+        )
+        .filter(
+          (hit) =>
+            hit.score >= minScore &&
+            (!filter || matchesVectorFilter(filter, hit.metadata))
+        )
+        .slice(0, topK);
+    },
+
+    delete() {
+      return unsupported("delete");
+    },
+
+    count() {
+      return unsupported("count");
+    },
+
+    deleteNamespace(namespace) {
+      return store.deleteIndex(namespace);
+    },
+  };
+}
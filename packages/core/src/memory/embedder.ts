@@ -0,0 +1,66 @@
+import { embedMany, type EmbeddingModel } from "ai";
+import type { Embedder } from "../types";
+
+/**
+ * Creates an embedder backed by an AI SDK embedding model
+ * @param model - The embedding model, e.g. `openai.embedding("text-embedding-3-small")`
+ * @returns A new Embedder instance
+ */
+export function createEmbedder(model: EmbeddingModel<string>): Embedder {
+  return {
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const { embeddings } = await embedMany({ model, values: texts });
+      return embeddings;
+    },
+  };
+}
+
+/**
+ * Options for the hashing embedder
+ */
+export type HashEmbedderOptions = {
+  /** Length of the vectors, defaults to 256 */
+  dimensions?: number;
+};
+
+/**
+ * FNV-1a hash of a string
+ */
+function hash(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Creates a deterministic embedder hashing the words of a text into a
+ * fixed size vector. It runs locally without a model, which makes it suited
+ * to tests and small deployments, but it only matches shared words.
+ * @param options - Embedder options
+ * @returns A new Embedder instance
+ */
+export function createHashEmbedder({
+  dimensions = 256,
+}: HashEmbedderOptions = {}): Embedder {
+  return {
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+        for (const word of words) {
+          const h = hash(word);
+          // The top bit picks the sign so that collisions tend to cancel out
+          vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+        }
+
+        const norm = Math.hypot(...vector);
+        return norm === 0 ? vector : vector.map((value) => value / norm);
+      });
+    },
+  };
+}
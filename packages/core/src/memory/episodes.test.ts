@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { MockLanguageModelV1 } from "ai/test";
+import { createEpisodeStore, getEpisodeNamespace } from "./episodes";
+import { createInMemoryVectorStore } from "./vector";
+import { formatEpisode } from "../formatters";
+import type { Embedder, Log } from "../types";
+
+function createModel(observations: string[]) {
+  let calls = 0;
+  return new MockLanguageModelV1({
+    defaultObjectGenerationMode: "json",
+    doGenerate: async () => ({
+      text: JSON.stringify({
+        observation: observations[calls++],
+        thoughts: "I checked the weather.",
+        result: "I answered the user.",
+      }),
+      finishReason: "stop",
+      usage: { promptTokens: 1, completionTokens: 1 },
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }),
+  });
+}
+
+// Embeds texts by the topics they mention
+const topics = ["weather", "music", "code"];
+const embedder: Embedder = {
+  async embed(texts) {
+    return texts.map((text) =>
+      topics.map((topic) => (text.includes(topic) ? 1 : 0.01))
+    );
+  },
+};
+
+function createChain(id: string): Log[] {
+  return [
+    {
+      ref: "input",
+      id: `${id}-input`,
+      type: "message",
+      data: "what is the weather?",
+      timestamp: 1,
+    },
+    {
+      ref: "action_call",
+      id: `${id}-call`,
+      name: "getWeather",
+      content: "{}",
+      data: {},
+      timestamp: 2,
+    },
+    {
+      ref: "action_result",
+      id: `${id}-result`,
+      callId: `${id}-call`,
+      name: "getWeather",
+      data: "sunny",
+      timestamp: 3,
+    },
+  ];
+}
+
+describe("episode store", () => {
+  it("should record runs as episodes", async () => {
+    const vector = createInMemoryVectorStore({ embedder });
+    const episodes = createEpisodeStore({
+      vector,
+      model: createModel(["The user asked about the weather"]),
+    });
+
+    const episode = await episodes.record("chat:record", createChain("1"));
+
+    expect(episode).toMatchObject({
+      contextId: "chat:record",
+      observation: "The user asked about the weather",
+      metadata: { success: true, actions: ["getWeather"] },
+    });
+    expect(await vector.count(getEpisodeNamespace("chat:record"))).toBe(1);
+    expect(await episodes.recall("chat:record", "weather")).toEqual([
+      { ...episode, score: expect.closeTo(1, 2) },
+    ]);
+  });
+
+  it("should skip runs without actions or outputs", async () => {
+    const vector = createInMemoryVectorStore({ embedder });
+    const episodes = createEpisodeStore({ vector, model: createModel([]) });
+
+    const [input] = createChain("1");
+
+    expect(await episodes.record("chat:skip", [input])).toBeUndefined();
+    expect(await vector.count(getEpisodeNamespace("chat:skip"))).toBe(0);
+  });
+
+  it("should recall the most relevant episodes", async () => {
+    const episodes = createEpisodeStore({
+      vector: createInMemoryVectorStore({ embedder }),
+      model: createModel([
+        "The user asked about music",
+        "The user asked about the weather",
+        "The user asked about code",
+      ]),
+      topK: 2,
+      minScore: 0.5,
+    });
+
+    for (const id of ["1", "2", "3"]) {
+      await episodes.record("chat:embed", createChain(id));
+    }
+
+    const recalled = await episodes.recall("chat:embed", "weather today");
+
+    expect(recalled).toHaveLength(1);
+    expect(recalled[0].observation).toBe("The user asked about the weather");
+    expect(recalled[0].score).toBeCloseTo(1, 2);
+    expect(formatEpisode(recalled[0])).toContain('<episode score="1.00">');
+  });
+
+  it("should only recall episodes of the context", async () => {
+    const vector = createInMemoryVectorStore({ embedder });
+    const episodes = createEpisodeStore({
+      vector,
+      model: createModel(["The user asked about the weather"]),
+    });
+
+    await episodes.record("chat:1", createChain("1"));
+
+    // Documents that are not episodes are skipped
+    await vector.upsert(getEpisodeNamespace("chat:2"), [
+      { id: "note", text: "weather" },
+    ]);
+
+    expect(await episodes.recall("chat:1", "weather")).toHaveLength(1);
+    expect(await episodes.recall("chat:2", "weather")).toEqual([]);
+  });
+});
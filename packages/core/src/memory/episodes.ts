@@ -0,0 +1,197 @@
+import { generateObject, type LanguageModelV1 } from "ai";
+import { z } from "zod";
+import { v7 as randomUUIDv7 } from "uuid";
+import { formatContextLog } from "../formatters";
+import type {
+  Episode,
+  EpisodicMemoryConfig,
+  Log,
+  ScoredEpisode,
+  VectorQueryResult,
+  VectorStore,
+} from "../types";
+
+/**
+ * Stores the episodes of each context and recalls the ones relevant to a query
+ */
+export type EpisodeStore = {
+  /**
+   * Summarizes the logs of a completed run into an episode and stores it
+   * @param contextId - The context the run happened in
+   * @param logs - The chain of the run
+   * @returns The stored episode, undefined when the run did nothing
+   */
+  record(contextId: string, logs: Log[]): Promise<Episode | undefined>;
+
+  /**
+   * Recalls the episodes of a context most relevant to a query
+   * @param contextId - The context to recall episodes from
+   * @param query - Text to compare the episodes with
+   * @returns Up to `topK` episodes, most relevant first
+   */
+  recall(contextId: string, query: string): Promise<ScoredEpisode[]>;
+};
+
+const episodeSchema = z.object({
+  observation: z.string().describe("The context and setup - what happened"),
+  thoughts: z
+    .string()
+    .describe(
+      "Internal reasoning process and observations of the agent in the episode that let it arrive at the correct action and result. 'I ...'"
+    ),
+  result: z
+    .string()
+    .describe(
+      "Outcome and retrospective. What did you do well? What could you do better next time? I ..."
+    ),
+});
+
+function formatLogs(logs: Log[]) {
+  return logs.map((log) => formatContextLog(log)).flat();
+}
+
+function createEpisodePrompt(logs: Log[]) {
+  const byRef = (ref: Log["ref"]) => logs.filter((log) => log.ref === ref);
+
+  return `
+You are creating an episodic memory for an AI agent to help it recall and learn from past experiences.
+
+Your task is to analyze the agent's inputs, thoughts, actions, and the results of those actions to create a structured memory that can be used for future reference and learning.
+
+## Inputs
+<inputs>
+${formatLogs(byRef("input")).join("\n")}
+</inputs>
+
+## Context
+<thoughts>
+${formatLogs(byRef("thought")).join("\n")}
+</thoughts>
+
+## Actions Taken
+<actions>
+${formatLogs(byRef("action_call")).join("\n")}
+</actions>
+
+## Results & Outcomes
+<results>
+${formatLogs([...byRef("action_result"), ...byRef("output")]).join("\n")}
+</results>
+
+## Instructions
+Create a comprehensive episodic memory with these components:
+
+1. OBSERVATION: Provide a clear, concise description of the situation, context, and key elements. Include:
+   - What was the environment or scenario?
+   - What was the agent trying to accomplish?
+   - What were the initial conditions or constraints?
+
+2. THOUGHTS: Capture the agent's internal reasoning process that led to its actions:
+   - What was the agent's understanding of the situation?
+   - What strategies or approaches did it consider?
+   - What key insights or realizations occurred during the process?
+   - Use first-person perspective ("I realized...", "I considered...")
+
+3. RESULT: Summarize the outcomes and provide a retrospective analysis:
+   - What was accomplished or not accomplished?
+   - What worked well and what didn't?
+   - What lessons can be learned for future similar situations?
+   - What would be done differently next time?
+   - Use first-person perspective ("I succeeded in...", "Next time I would...")
+
+Make the memory detailed enough to be useful for future recall, but concise enough to be quickly processed. Focus on capturing the essence of the experience, key decision points, and lessons learned.`;
+}
+
+/**
+ * Text of an episode embedded by the vector store
+ */
+function getEpisodeText(episode: Episode) {
+  return [episode.observation, episode.result].join("\n");
+}
+
+/**
+ * Namespace of the episodes of a context in the vector store
+ * @param contextId - The context the episodes happened in
+ */
+export function getEpisodeNamespace(contextId: string) {
+  return [contextId, "episodes"].join(":");
+}
+
+function parseEpisode({ metadata, score }: VectorQueryResult) {
+  if (typeof metadata?.episode !== "string") return undefined;
+  return { ...(JSON.parse(metadata.episode) as Episode), score };
+}
+
+/**
+ * Creates an episode store keeping episodes as documents of a vector store,
+ * one namespace per context, and recalling them by similarity
+ * @param options - Episodic memory configuration
+ * @param options.vector - Vector store holding the episodes
+ * @param options.model - Model summarizing runs into episodes
+ * @returns A new EpisodeStore instance
+ */
+export function createEpisodeStore({
+  vector,
+  model,
+  topK = 3,
+  minScore = 0,
+}: Omit<EpisodicMemoryConfig, "model" | "vector"> & {
+  vector: VectorStore;
+  model: LanguageModelV1;
+}): EpisodeStore {
+  return {
+    async record(contextId, logs) {
+      const calls = logs.filter((log) => log.ref === "action_call");
+      const outputs = logs.filter((log) => log.ref === "output");
+
+      // Runs without actions or outputs have nothing to learn from
+      if (calls.length === 0 && outputs.length === 0) return undefined;
+
+      const { object } = await generateObject({
+        model,
+        schema: episodeSchema,
+        prompt: createEpisodePrompt(logs),
+      });
+
+      const episode: Episode = {
+        id: randomUUIDv7(),
+        contextId,
+        timestamp: Date.now(),
+        ...object,
+        metadata: {
+          success: !logs.some(
+            (log) => log.ref === "action_result" && !!log.error
+          ),
+          actions: [...new Set(calls.map((call) => call.name))],
+        },
+      };
+
+      // The whole episode is kept in the metadata, which queries return
+      await vector.upsert(getEpisodeNamespace(contextId), [
+        {
+          id: episode.id,
+          text: getEpisodeText(episode),
+          metadata: {
+            timestamp: episode.timestamp,
+            success: episode.metadata!.success!,
+            episode: JSON.stringify(episode),
+          },
+        },
+      ]);
+
+      return episode;
+    },
+
+    async recall(contextId, query) {
+      const hits = await vector.query(getEpisodeNamespace(contextId), query, {
+        topK,
+        minScore,
+      });
+
+      return hits
+        .map(parseEpisode)
+        .filter((episode): episode is ScoredEpisode => !!episode)
+        .filter((episode) => episode.score > 0);
+    },
+  };
+}
@@ -1 +1,6 @@
 export * from "./base";
+export * from "./strategies";
+export * from "./embedder";
+export * from "./episodes";
+export * from "./vector";
+export * from "./migrate";
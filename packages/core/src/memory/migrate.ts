@@ -0,0 +1,59 @@
+import type { MemoryStore } from "../types";
+
+/**
+ * Options for copying the entries of a memory store into another one
+ */
+export type MigrateMemoryStoreOptions = {
+  /** Only copies the keys starting with this prefix */
+  prefix?: string;
+  /** Replaces the entries already in the target store, defaults to true */
+  overwrite?: boolean;
+  /** Called after each copied entry */
+  onProgress?: (progress: {
+    key: string;
+    copied: number;
+    total: number;
+  }) => void;
+};
+
+/**
+ * Copies all the entries of a memory store into another one, e.g. from the
+ * in-memory store to a SQLite or MongoDB store
+ * @param from - Store to copy from, it must implement `keys`
+ * @param to - Store to copy into
+ * @param options - Migration options
+ * @returns The number of copied and skipped entries
+ */
+export async function migrateMemoryStore(
+  from: MemoryStore,
+  to: MemoryStore,
+  { prefix, overwrite = true, onProgress }: MigrateMemoryStoreOptions = {}
+) {
+  if (!from.keys) {
+    throw new Error("The source memory store can't list its keys");
+  }
+
+  const keys = await from.keys(prefix);
+  let copied = 0;
+  let skipped = 0;
+
+  for (const key of keys) {
+    if (!overwrite && (await to.get(key)) !== null) {
+      skipped++;
+      continue;
+    }
+
+    const value = await from.get(key);
+    // Expired or deleted since the keys were listed
+    if (value === null) {
+      skipped++;
+      continue;
+    }
+
+    await to.set(key, value);
+    copied++;
+    onProgress?.({ key, copied, total: keys.length });
+  }
+
+  return { copied, skipped };
+}
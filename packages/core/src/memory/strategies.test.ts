@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from "vitest";
+import { MockLanguageModelV1 } from "ai/test";
+import { summarizeMemory, trimMemory } from "./strategies";
+import { createDefaultContextMemory, defaultContextRender } from "../context";
+import { TaskRunner } from "../task";
+import { Logger } from "../logger";
+import { LogLevel, type InputRef, type WorkingMemory } from "../types";
+
+function input(index: number, processed = true): InputRef {
+  return {
+    id: `input-${index}`,
+    ref: "input",
+    type: "message",
+    data: `message ${index}`,
+    timestamp: index,
+    processed,
+  };
+}
+
+function createMemory(count: number) {
+  const memory = createDefaultContextMemory();
+  for (let i = 0; i < count; i++) memory.inputs.push(input(i));
+  return memory;
+}
+
+function setup({ fail = false } = {}) {
+  const prompts: string[] = [];
+  const state = { fail };
+
+  const model = new MockLanguageModelV1({
+    doGenerate: async ({ prompt, abortSignal }) => {
+      abortSignal?.throwIfAborted();
+      if (state.fail) throw new Error("unavailable");
+      prompts.push(JSON.stringify(prompt));
+      return {
+        text: " The user sent numbered messages. ",
+        finishReason: "stop",
+        usage: { promptTokens: 1, completionTokens: 1 },
+        rawCall: { rawPrompt: null, rawSettings: {} },
+      };
+    },
+  });
+
+  const upsert = vi.fn(async () => {});
+
+  const agent = {
+    model,
+    taskRunner: new TaskRunner(1),
+    memory: { vector: { upsert } },
+  } as any;
+
+  const run = (
+    strategy: ReturnType<typeof summarizeMemory>,
+    workingMemory: WorkingMemory,
+    abortSignal?: AbortSignal
+  ) =>
+    strategy({
+      agent,
+      contextId: "chat:1",
+      workingMemory,
+      maxMemoryItems: 10,
+      maxUnprocessedItems: 5,
+      logger: new Logger({ level: LogLevel.ERROR }),
+      abortSignal,
+    });
+
+  return { prompts, upsert, run, state };
+}
+
+describe("working memory strategies", () => {
+  it("should trim logs to the most recent items", async () => {
+    const { run } = setup();
+    const memory = createMemory(15);
+
+    await run(trimMemory(), memory);
+
+    expect(memory.inputs.map((i) => i.id)).toEqual(
+      createMemory(15)
+        .inputs.slice(-10)
+        .map((i) => i.id)
+    );
+    expect(memory.summary).toBeUndefined();
+  });
+
+  it("should fold old logs into the summary", async () => {
+    const { run, prompts, upsert } = setup();
+    const memory = createMemory(12);
+    memory.inputs.push(input(12, false));
+
+    await run(summarizeMemory({ keepItems: 4 }), memory);
+
+    expect(memory.summary).toBe("The user sent numbered messages.");
+    expect(memory.inputs.map((i) => i.id)).toEqual([
+      "input-8",
+      "input-9",
+      "input-10",
+      "input-11",
+      "input-12",
+    ]);
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain("message 7");
+    expect(prompts[0]).not.toContain("message 8");
+    expect(upsert).not.toHaveBeenCalled();
+
+    expect(defaultContextRender({ memory })[0]).toContain(
+      "<summary>The user sent numbered messages.</summary>"
+    );
+  });
+
+  it("should keep memory below the threshold as is", async () => {
+    const { run, prompts } = setup();
+    const memory = createMemory(10);
+
+    await run(summarizeMemory(), memory);
+
+    expect(memory.inputs).toHaveLength(10);
+    expect(prompts).toHaveLength(0);
+  });
+
+  it("should archive folded logs", async () => {
+    const { run, upsert } = setup();
+    const memory = createMemory(12);
+
+    await run(summarizeMemory({ archive: true }), memory);
+
+    expect(upsert).toHaveBeenCalledWith(
+      "chat:1:archive",
+      Array.from({ length: 7 }, (_, i) =>
+        expect.objectContaining({
+          id: `input-${i}`,
+          metadata: { contextId: "chat:1", ref: "input", timestamp: i },
+        })
+      )
+    );
+  });
+
+  it("should only summarize once a batch of new logs is processed", async () => {
+    const { run, prompts } = setup();
+    const memory = createMemory(11);
+    const strategy = summarizeMemory({ keepItems: 10 });
+
+    await run(strategy, memory);
+    expect(prompts).toHaveLength(1);
+    expect(memory.inputs).toHaveLength(5);
+
+    for (let i = 11; i < 16; i++) {
+      memory.inputs.push(input(i));
+      await run(strategy, memory);
+    }
+
+    expect(prompts).toHaveLength(1);
+
+    memory.inputs.push(input(16));
+    await run(strategy, memory);
+
+    expect(prompts).toHaveLength(2);
+  });
+
+  it("should not summarize logs the model has not processed", async () => {
+    const { run, prompts } = setup();
+    const memory = createMemory(11);
+
+    memory.calls.push({
+      id: "call-0",
+      ref: "action_call",
+      name: "search",
+      content: "{}",
+      data: {},
+      timestamp: 0,
+    });
+    memory.results.push({
+      id: "result-0",
+      ref: "action_result",
+      callId: "call-0",
+      name: "search",
+      data: "found",
+      timestamp: 11,
+      processed: false,
+    });
+    memory.outputs.push({
+      id: "output-0",
+      ref: "output",
+      type: "message",
+      data: "pending",
+      timestamp: 0,
+      processed: false,
+    });
+
+    await run(summarizeMemory(), memory);
+
+    expect(prompts).toHaveLength(1);
+    expect(memory.calls).toHaveLength(1);
+    expect(memory.results).toHaveLength(1);
+    expect(memory.outputs).toHaveLength(1);
+    expect(memory.inputs).toHaveLength(5);
+  });
+
+  it("should keep memory as is when the summary fails", async () => {
+    const { run, prompts, upsert, state } = setup({ fail: true });
+    const memory = createMemory(15);
+    const strategy = summarizeMemory({ archive: true });
+
+    await run(strategy, memory);
+
+    expect(memory.summary).toBeUndefined();
+    expect(memory.inputs).toEqual(createMemory(15).inputs);
+    expect(upsert).not.toHaveBeenCalled();
+
+    state.fail = false;
+    await run(strategy, memory);
+
+    expect(prompts).toHaveLength(1);
+    expect(memory.summary).toBe("The user sent numbered messages.");
+    expect(memory.inputs).toHaveLength(5);
+  });
+
+  it("should not summarize once the run is aborted", async () => {
+    const { run, prompts } = setup();
+    const memory = createMemory(15);
+
+    await run(summarizeMemory(), memory, AbortSignal.abort());
+
+    expect(prompts).toHaveLength(0);
+    expect(memory.inputs).toHaveLength(15);
+  });
+});
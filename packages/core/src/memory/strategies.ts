@@ -0,0 +1,216 @@
+import { generateText, type LanguageModelV1 } from "ai";
+import { formatContextLog } from "../formatters";
+import { getWorkingMemoryLogs } from "../context";
+import type {
+  Log,
+  WorkingMemoryStrategy,
+  WorkingMemoryStrategyParams,
+} from "../types";
+
+/**
+ * Options for the summarize working memory strategy
+ */
+export type SummarizeMemoryOptions = {
+  /** Number of processed logs that triggers a summary, defaults to `maxMemoryItems` */
+  maxItems?: number;
+  /**
+   * Number of recent processed logs kept next to the summary, at most and by
+   * default half of `maxItems` so each summary folds a batch of new logs
+   */
+  keepItems?: number;
+  /** Model writing the summary, defaults to the agent model */
+  model?: LanguageModelV1;
+  /** Maximum length of the summary in tokens, defaults to 1024 */
+  maxTokens?: number;
+  /**
+   * Also stores the summarized logs in the vector store of the agent, under
+   * the namespace returned by `getArchiveNamespace`
+   */
+  archive?: boolean;
+};
+
+/**
+ * Namespace of the archived logs of a context in the vector store
+ * @param contextId - The context the logs were summarized in
+ */
+export function getArchiveNamespace(contextId: string) {
+  return [contextId, "archive"].join(":");
+}
+
+/**
+ * Trims every log type of the working memory to its most recent items,
+ * older logs are discarded. This is the default strategy.
+ * @returns A working memory strategy
+ */
+export function trimMemory(): WorkingMemoryStrategy {
+  return ({ workingMemory, maxMemoryItems, maxUnprocessedItems }) => {
+    // Keep all unprocessed items plus some history
+    workingMemory.results = [
+      ...workingMemory.results
+        .filter((r) => !r.processed)
+        .slice(-maxUnprocessedItems),
+      ...workingMemory.results
+        .filter((r) => r.processed)
+        .slice(-maxMemoryItems),
+    ];
+
+    workingMemory.outputs = [
+      ...workingMemory.outputs
+        .filter((o) => !o.processed)
+        .slice(-maxUnprocessedItems),
+      ...workingMemory.outputs
+        .filter((o) => o.processed)
+        .slice(-maxMemoryItems),
+    ];
+
+    // Keep recent history for context
+    workingMemory.thoughts = workingMemory.thoughts.slice(-maxMemoryItems);
+    workingMemory.calls = workingMemory.calls.slice(-maxMemoryItems);
+
+    // Also trim inputs once they're all processed
+    if (workingMemory.inputs.every((i) => i.processed)) {
+      workingMemory.inputs = workingMemory.inputs.slice(-maxMemoryItems);
+    }
+  };
+}
+
+/**
+ * Folds the oldest processed logs of the working memory into its rolling
+ * `summary` once their number passes a threshold, optionally archiving them
+ * in the vector store.
+ * @param options - Strategy options
+ * @returns A working memory strategy
+ */
+export function summarizeMemory({
+  maxItems,
+  keepItems,
+  model,
+  maxTokens = 1024,
+  archive = false,
+}: SummarizeMemoryOptions = {}): WorkingMemoryStrategy {
+  return async (params: WorkingMemoryStrategyParams) => {
+    const {
+      agent,
+      contextId,
+      workingMemory,
+      maxMemoryItems,
+      maxUnprocessedItems,
+      logger,
+      abortSignal,
+    } = params;
+
+    const threshold = maxItems ?? maxMemoryItems;
+
+    // Only logs the model has seen are summarized, calls are kept with their
+    // results until those are processed
+    const processed = new Set(
+      workingMemory.results.filter((r) => r.processed).map((r) => r.callId)
+    );
+
+    const history = getWorkingMemoryLogs({
+      ...workingMemory,
+      inputs: workingMemory.inputs.filter((i) => i.processed),
+      outputs: workingMemory.outputs.filter((o) => o.processed),
+      calls: workingMemory.calls.filter(
+        (c) =>
+          processed.has(c.id) ||
+          !workingMemory.results.some((r) => r.callId === c.id)
+      ),
+      results: workingMemory.results.filter((r) => r.processed),
+    });
+
+    if (history.length > threshold) {
+      const half = Math.floor(threshold / 2);
+      const keep = Math.min(keepItems ?? half, half);
+      const folded = history.slice(0, history.length - keep);
+      const summarizer = model ?? agent.model;
+
+      logger.debug("agent:memory", "Summarizing working memory", {
+        contextId,
+        folded: folded.length,
+      });
+
+      let text: string;
+
+      try {
+        ({ text } = await agent.taskRunner.enqueue(
+          () =>
+            generateText({
+              model: summarizer,
+              maxTokens,
+              prompt: createSummaryPrompt(workingMemory.summary, folded),
+              abortSignal,
+            }),
+          0,
+          { queue: "llm", rateLimitKey: summarizer.provider }
+        ));
+      } catch (error) {
+        // The logs stay in working memory and are folded on a later step
+        logger.warn("agent:memory", "Failed to summarize working memory", {
+          contextId,
+          error,
+        });
+        return;
+      }
+
+      if (archive) {
+        await agent.memory.vector.upsert(
+          getArchiveNamespace(contextId),
+          folded.map((log) => ({
+            id: log.id,
+            text: formatLog(log),
+            metadata: { contextId, ref: log.ref, timestamp: log.timestamp },
+          }))
+        );
+      }
+
+      const removed = new Set<Log>(folded);
+      const kept = <T extends Log>(log: T) => !removed.has(log);
+
+      workingMemory.summary = text.trim();
+      workingMemory.inputs = workingMemory.inputs.filter(kept);
+      workingMemory.outputs = workingMemory.outputs.filter(kept);
+      workingMemory.thoughts = workingMemory.thoughts.filter(kept);
+      workingMemory.calls = workingMemory.calls.filter(kept);
+      workingMemory.results = workingMemory.results.filter(kept);
+    }
+
+    // Unprocessed items are trimmed like the default strategy
+    workingMemory.inputs = [
+      ...workingMemory.inputs.filter((i) => i.processed),
+      ...workingMemory.inputs
+        .filter((i) => !i.processed)
+        .slice(-maxUnprocessedItems),
+    ];
+
+    workingMemory.results = [
+      ...workingMemory.results.filter((r) => r.processed),
+      ...workingMemory.results
+        .filter((r) => !r.processed)
+        .slice(-maxUnprocessedItems),
+    ];
+  };
+}
+
+function formatLog(log: Log) {
+  return [formatContextLog(log)].flat().join("\n");
+}
+
+function createSummaryPrompt(summary: string | undefined, logs: Log[]) {
+  return `
+You are maintaining the memory of an AI agent in an ongoing conversation.
+Update the summary of the conversation with the logs below, they will be removed from the agent's memory.
+
+Keep facts, names, identifiers, user preferences, decisions, open requests and the outcome of actions.
+Leave out greetings, repetitions and anything the agent will not need to continue the conversation.
+Write in the third person and only respond with the updated summary.
+
+<summary>
+${summary ?? ""}
+</summary>
+
+<logs>
+${logs.map(formatLog).join("\n")}
+</logs>
+`;
+}
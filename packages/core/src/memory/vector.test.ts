@@ -0,0 +1,188 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MockEmbeddingModelV1 } from "ai/test";
+import { createInMemoryVectorStore } from "./vector";
+import { createHashEmbedder } from "./embedder";
+import { createMemory, createMemoryStore, toVectorStore } from "./base";
+import type { LegacyVectorStore } from "../types";
+
+const documents = [
+  {
+    id: "weather",
+    text: "It is sunny in Paris today",
+    metadata: { topic: "weather" },
+  },
+  {
+    id: "music",
+    text: "The band played jazz all night",
+    metadata: { topic: "music" },
+  },
+  {
+    id: "code",
+    text: "The build failed because of a type error",
+    metadata: { topic: "code" },
+  },
+];
+
+async function withDirectory(fn: (directory: string) => Promise<void>) {
+  const directory = await mkdtemp(join(tmpdir(), "daydreams-vector-"));
+  try {
+    await fn(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+describe("hash embedder", () => {
+  it("should embed texts deterministically", async () => {
+    const embedder = createHashEmbedder({ dimensions: 32 });
+    const [a, b, c] = await embedder.embed([
+      "Sunny in Paris",
+      "sunny in paris",
+      "",
+    ]);
+
+    expect(a).toHaveLength(32);
+    expect(a).toEqual(b);
+    expect(Math.hypot(...a)).toBeCloseTo(1);
+    expect(c.every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe("in-memory vector store", () => {
+  it("should rank documents by similarity", async () => {
+    const store = createInMemoryVectorStore({ embedder: createHashEmbedder() });
+    await store.upsert("chat:1", documents);
+
+    const results = await store.query("chat:1", "is it sunny in Paris?", {
+      topK: 2,
+    });
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({
+      id: "weather",
+      metadata: { topic: "weather" },
+    });
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(await store.query("chat:2", "sunny")).toEqual([]);
+  });
+
+  it("should filter by metadata and score", async () => {
+    const store = createInMemoryVectorStore({ embedder: createHashEmbedder() });
+    await store.upsert("chat:1", documents);
+
+    const byTopic = await store.query("chat:1", "sunny Paris", {
+      filter: { topic: ["music", "code"] },
+    });
+    expect(byTopic.map((result) => result.id).sort()).toEqual([
+      "code",
+      "music",
+    ]);
+
+    const byScore = await store.query("chat:1", "sunny Paris", {
+      minScore: 0.3,
+      filter: { topic: ["weather", "music"] },
+    });
+    expect(byScore.map((result) => result.id)).toEqual(["weather"]);
+  });
+
+  it("should update and delete documents", async () => {
+    const store = createInMemoryVectorStore({ embedder: createHashEmbedder() });
+    await store.upsert("chat:1", documents);
+    await store.upsert("chat:1", [{ id: "music", text: "Rain in Paris" }]);
+    await store.upsert("chat:2", [{ id: "music", text: "Another namespace" }]);
+
+    expect(await store.count("chat:1")).toBe(3);
+
+    await store.delete("chat:1", ["weather"]);
+    const [result] = await store.query("chat:1", "Paris", { topK: 1 });
+    expect(result).toMatchObject({ id: "music", text: "Rain in Paris" });
+
+    await store.deleteNamespace("chat:1");
+    expect(await store.count("chat:1")).toBe(0);
+    expect(await store.count("chat:2")).toBe(1);
+  });
+
+  it("should embed with an AI SDK embedding model", async () => {
+    const model = new MockEmbeddingModelV1<string>({
+      doEmbed: async ({ values }) => ({
+        embeddings: values.map((value) =>
+          value.includes("jazz") ? [1, 0] : [0, 1]
+        ),
+      }),
+    });
+    const store = createInMemoryVectorStore({ embedder: model });
+    await store.upsert("chat:1", documents);
+
+    const [result] = await store.query("chat:1", "jazz");
+    expect(result.id).toBe("music");
+    expect(result.score).toBeCloseTo(1);
+  });
+
+  for (const format of ["json", "binary"] as const) {
+    it(`should persist to a ${format} file`, () =>
+      withDirectory(async (directory) => {
+        const path = join(directory, `vectors.${format}`);
+        const embedder = createHashEmbedder();
+
+        const store = createInMemoryVectorStore({ embedder, path, format });
+        await store.upsert("chat:1", documents);
+        await store.upsert("chat:2", [{ id: "note", text: "another context" }]);
+        await store.delete("chat:1", ["code"]);
+
+        const reloaded = createInMemoryVectorStore({ embedder, path, format });
+        expect(await reloaded.count("chat:1")).toBe(2);
+        expect(await reloaded.count("chat:2")).toBe(1);
+
+        const [before] = await store.query("chat:1", "sunny Paris");
+        const [after] = await reloaded.query("chat:1", "sunny Paris");
+        expect(after).toMatchObject({
+          id: "weather",
+          metadata: { topic: "weather" },
+        });
+        expect(after.score).toBeCloseTo(before.score, 5);
+      }));
+  }
+});
+
+describe("legacy vector stores", () => {
+  const legacy: LegacyVectorStore = {
+    async upsert() {},
+    async query() {
+      return [
+        { id: "a", text: "first", metadata: { topic: "weather" } },
+        "second",
+        { value: 3 },
+      ];
+    },
+    async createIndex() {},
+    async deleteIndex() {},
+  };
+
+  it("should adapt legacy hits", async () => {
+    const store = toVectorStore(legacy);
+
+    expect(await store.query("chat:1", "query")).toEqual([
+      { id: "a", text: "first", metadata: { topic: "weather" }, score: 1 },
+      { id: "1", text: "second", score: 2 / 3 },
+      { id: "2", text: '{"value":3}', score: 1 / 3 },
+    ]);
+
+    expect(
+      await store.query("chat:1", "query", { filter: { topic: "weather" } })
+    ).toHaveLength(1);
+    expect(await store.query("chat:1", "query", { topK: 2 })).toHaveLength(2);
+    await expect(store.count("chat:1")).rejects.toThrow("count");
+  });
+
+  it("should keep stores implementing the interface", () => {
+    const store = createInMemoryVectorStore({ embedder: createHashEmbedder() });
+
+    expect(toVectorStore(store)).toBe(store);
+    expect(createMemory(createMemoryStore(), legacy).vector.count).toBeTypeOf(
+      "function"
+    );
+  });
+});
@@ -0,0 +1,285 @@
+import { cosineSimilarity, type EmbeddingModel } from "ai";
+import { createEmbedder } from "./embedder";
+import type {
+  Embedder,
+  VectorDocument,
+  VectorFilter,
+  VectorMetadataValue,
+  VectorStore,
+} from "../types";
+
+export type InMemoryVectorStoreOptions = {
+  /** Embeds documents and queries, either an Embedder or an AI SDK embedding model */
+  embedder: Embedder | EmbeddingModel<string>;
+  /** File persisting the store, loaded on first use and written after each change */
+  path?: string;
+  /** Encoding of the file, defaults to "json" */
+  format?: "json" | "binary";
+};
+
+export type InMemoryVectorStore = VectorStore & {
+  /**
+   * Writes the store to its file, resolves once pending writes are done
+   */
+  save(): Promise<void>;
+};
+
+type Entry = VectorDocument & { embedding: number[] };
+
+type Snapshot = Record<string, Entry[]>;
+
+// "DDVS" followed by the format version
+const MAGIC = 0x44445653;
+const VERSION = 1;
+
+function isEmbeddingModel(
+  embedder: Embedder | EmbeddingModel<string>
+): embedder is EmbeddingModel<string> {
+  return typeof (embedder as EmbeddingModel<string>).doEmbed === "function";
+}
+
+/**
+ * Checks whether the metadata of a document matches a filter
+ * @param filter - Filter to match
+ * @param metadata - Metadata of the document
+ */
+export function matchesVectorFilter(
+  filter: VectorFilter,
+  metadata: Record<string, VectorMetadataValue> = {}
+) {
+  return Object.entries(filter).every(([key, value]) =>
+    Array.isArray(value)
+      ? value.includes(metadata[key])
+      : metadata[key] === value
+  );
+}
+
+/**
+ * Encodes a snapshot as a header followed by the JSON of the documents and
+ * their embeddings as float32
+ */
+function encodeBinary(snapshot: Snapshot) {
+  const entries = Object.entries(snapshot).flatMap(([namespace, entries]) =>
+    entries.map((entry) => ({ namespace, entry }))
+  );
+
+  const dimensions = entries[0]?.entry.embedding.length ?? 0;
+  const documents = new TextEncoder().encode(
+    JSON.stringify(
+      entries.map(({ namespace, entry: { embedding, ...document } }) => ({
+        namespace,
+        ...document,
+      }))
+    )
+  );
+
+  const headerSize = 16;
+  // Float32 values must start at a multiple of 4 bytes
+  const offset = headerSize + Math.ceil(documents.length / 4) * 4;
+  const buffer = new ArrayBuffer(offset + entries.length * dimensions * 4);
+  const view = new DataView(buffer);
+
+  view.setUint32(0, MAGIC);
+  view.setUint32(4, VERSION);
+  view.setUint32(8, documents.length);
+  view.setUint32(12, dimensions);
+  new Uint8Array(buffer, headerSize).set(documents);
+
+  const embeddings = new Float32Array(buffer, offset);
+  entries.forEach(({ entry }, i) => {
+    if (entry.embedding.length !== dimensions) {
+      throw new Error("Embeddings of the vector store have different lengths");
+    }
+    embeddings.set(entry.embedding, i * dimensions);
+  });
+
+  return new Uint8Array(buffer);
+}
+
+function decodeBinary(bytes: Uint8Array): Snapshot {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (view.getUint32(0) !== MAGIC || view.getUint32(4) !== VERSION) {
+    throw new Error("Invalid vector store file");
+  }
+
+  const length = view.getUint32(8);
+  const dimensions = view.getUint32(12);
+  const documents: (VectorDocument & { namespace: string })[] = JSON.parse(
+    new TextDecoder().decode(bytes.subarray(16, 16 + length))
+  );
+
+  const offset = 16 + Math.ceil(length / 4) * 4;
+  // Copied so the values are aligned whatever the offset of the buffer
+  const embeddings = new Float32Array(
+    new Uint8Array(
+      bytes.subarray(offset, offset + documents.length * dimensions * 4)
+    ).buffer
+  );
+
+  const snapshot: Snapshot = {};
+  documents.forEach(({ namespace, ...document }, i) => {
+    (snapshot[namespace] ??= []).push({
+      ...document,
+      embedding: Array.from(
+        embeddings.subarray(i * dimensions, (i + 1) * dimensions)
+      ),
+    });
+  });
+
+  return snapshot;
+}
+
+/**
+ * Creates a vector store keeping documents and their embeddings in memory,
+ * ranked by cosine similarity. It needs no external service and can persist
+ * itself to a file.
+ * @param options - Vector store options
+ * @returns A new InMemoryVectorStore instance
+ */
+export function createInMemoryVectorStore({
+  embedder: embedderOrModel,
+  path,
+  format = "json",
+}: InMemoryVectorStoreOptions): InMemoryVectorStore {
+  const embedder = isEmbeddingModel(embedderOrModel)
+    ? createEmbedder(embedderOrModel)
+    : embedderOrModel;
+
+  const namespaces = new Map<string, Map<string, Entry>>();
+
+  let loading: Promise<void> | undefined;
+  let writing: Promise<void> = Promise.resolve();
+
+  async function load() {
+    if (!path) return;
+
+    const fs = await import("node:fs/promises");
+
+    let file: Buffer;
+    try {
+      file = await fs.readFile(path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const snapshot: Snapshot =
+      format === "binary"
+        ? decodeBinary(file)
+        : JSON.parse(file.toString("utf8"));
+
+    for (const [namespace, entries] of Object.entries(snapshot)) {
+      namespaces.set(
+        namespace,
+        new Map(entries.map((entry) => [entry.id, entry]))
+      );
+    }
+  }
+
+  function ready() {
+    return (loading ??= load());
+  }
+
+  function persist() {
+    if (!path) return Promise.resolve();
+
+    const snapshot: Snapshot = Object.fromEntries(
+      Array.from(namespaces, ([namespace, entries]) => [
+        namespace,
+        Array.from(entries.values()),
+      ])
+    );
+
+    writing = writing
+      .catch(() => {})
+      .then(async () => {
+        const fs = await import("node:fs/promises");
+        const data =
+          format === "binary"
+            ? encodeBinary(snapshot)
+            : JSON.stringify(snapshot);
+
+        // Written next to the file first so a crash never leaves it half written
+        await fs.writeFile(`${path}.tmp`, data);
+        await fs.rename(`${path}.tmp`, path);
+      });
+
+    return writing;
+  }
+
+  async function embed(texts: string[]) {
+    const embeddings = await embedder.embed(texts);
+    if (embeddings.length !== texts.length) {
+      throw new Error("Embedder returned an unexpected number of vectors");
+    }
+    return embeddings;
+  }
+
+  return {
+    async upsert(namespace, documents) {
+      if (documents.length === 0) return;
+
+      await ready();
+      const embeddings = await embed(documents.map((doc) => doc.text));
+
+      if (!namespaces.has(namespace)) namespaces.set(namespace, new Map());
+      const entries = namespaces.get(namespace)!;
+
+      documents.forEach(({ id, text, metadata }, i) => {
+        entries.set(id, { id, text, metadata, embedding: embeddings[i] });
+      });
+
+      await persist();
+    },
+
+    async query(namespace, query, { topK = 5, filter, minScore = 0 } = {}) {
+      await ready();
+
+      const entries = Array.from(
+        namespaces.get(namespace)?.values() ?? []
+      ).filter(
+        (entry) => !filter || matchesVectorFilter(filter, entry.metadata)
+      );
+      if (entries.length === 0) return [];
+
+      const [vector] = await embed([query]);
+
+      return entries
+        .map(({ embedding, ...document }) => ({
+          ...document,
+          score: cosineSimilarity(vector, embedding),
+        }))
+        .filter((result) => result.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+
+    async delete(namespace, ids) {
+      await ready();
+
+      const entries = namespaces.get(namespace);
+      if (!entries) return;
+
+      for (const id of ids) entries.delete(id);
+      await persist();
+    },
+
+    async count(namespace) {
+      await ready();
+      return namespaces.get(namespace)?.size ?? 0;
+    },
+
+    async deleteNamespace(namespace) {
+      await ready();
+      if (!namespaces.delete(namespace)) return;
+
+      await persist();
+    },
+
+    async save() {
+      await ready();
+      await persist();
+    },
+  };
+}
@@ -5,7 +5,7 @@ import {
 } from "../formatters";
 import { createParser, createPrompt } from "../prompt";
 import type { ActionResult, AnyAction, Log, Output } from "../types";
-import { xmlStreamParser } from "../xml";
+import { createXmlTokenizer, type XMLToken } from "../xml";
 
 const promptTemplate = `
 You are tasked with analyzing messages, formulating responses, and initiating actions based on a given context. 
@@ -350,59 +350,84 @@ const tags = new Set([
   "finalize",
 ]);
 
+// Action calls carry JSON that may contain markup
+const rawTags = new Set(["action_call"]);
+
 export async function handleStream(
-  textStream: AsyncGenerator<string>,
+  textStream: AsyncIterable<string>,
   initialIndex: number,
   fn: (el: StackElement) => void
 ) {
-  const parser = xmlStreamParser(tags);
-
-  parser.next();
+  const tokenizer = createXmlTokenizer(tags, { rawTags });
 
   let current: StackElement | undefined = undefined;
   let stack: StackElement[] = [];
 
   let index = initialIndex;
 
-  async function handleChunk(chunk: string) {
-    let result = parser.next(chunk);
-    while (!result.done && result.value) {
-      if (result.value.type === "start") {
+  function close() {
+    if (current) fn({ ...current, done: true });
+    current = stack.pop();
+  }
+
+  function handleToken(token: XMLToken) {
+    switch (token.type) {
+      case "start": {
         if (current) stack.push(current);
         current = {
           index: index++,
-          tag: result.value.name,
-          attributes: result.value.attributes,
+          tag: token.name,
+          attributes: token.attributes,
           content: [],
           done: false,
         };
         fn(current);
+        break;
       }
 
-      if (result.value.type === "end") {
-        if (current)
-          fn({
-            ...current,
-            done: true,
-          });
-        current = stack.pop();
+      case "self-closing": {
+        fn({
+          index: index++,
+          tag: token.name,
+          attributes: token.attributes,
+          content: [],
+          done: true,
+        });
+        break;
       }
 
-      if (result.value.type === "text") {
+      case "end": {
+        // Ignore stray closing tags, close unclosed children of the element
+        if (
+          current?.tag !== token.name &&
+          !stack.some((el) => el.tag === token.name)
+        ) {
+          break;
+        }
+
+        while (current && current.tag !== token.name) close();
+        close();
+        break;
+      }
+
+      case "text": {
         if (current) {
-          current.content.push(result.value.content);
+          current.content.push(token.content);
           fn(current);
         }
+        break;
       }
-      result = parser.next();
     }
   }
 
   for await (const chunk of textStream) {
-    handleChunk(chunk);
+    tokenizer.write(chunk).forEach(handleToken);
   }
 
-  parser.return?.();
+  tokenizer.end().forEach(handleToken);
+
+  // Close elements left open by a truncated response
+  while (current) close();
 }
 
 export async function* wrapStream(
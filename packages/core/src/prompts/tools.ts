@@ -0,0 +1,117 @@
+import { formatContextLog, formatOutputInterface } from "../formatters";
+import { createPrompt } from "../prompt";
+import type { ActionResult, Log, Output } from "../types";
+
+/**
+ * Name of the tool the model calls to send outputs and end the flow.
+ */
+export const FINAL_RESPONSE_TOOL = "final_response";
+
+const toolsTemplate = `
+You are tasked with analyzing messages, formulating responses, and initiating actions based on a given context.
+You will be provided with a set of available tools, outputs, and a current context.
+Your instructions is to analyze the situation and respond appropriately.
+
+## Instructions
+- If asked for something - never do a summary unless you are asked to do a summary. Always respond with the exact information requested.
+- Reason about the context, the updates and your planned actions before calling any tool.
+- Initiate actions by calling their tools. Actions are processed asynchronously, their results will be provided in the next step.
+- Only call tools with arguments matching their schemas.
+- IMPORTANT: If you state that you will perform an action, you MUST call the corresponding tool. Do not say you will do something without actually calling it.
+- Use the ${FINAL_RESPONSE_TOOL} tool to send outputs. Set finalize to true when no further actions or outputs are needed and the flow should end.
+
+Here are the available outputs you can send with the ${FINAL_RESPONSE_TOOL} tool:
+<outputs>
+{{outputs}}
+</outputs>
+
+Here is the current contexts:
+<contexts>
+{{context}}
+</contexts>
+
+Now, analyze the following updates to contexts:
+<contexts>
+{{updates}}
+</contexts>
+`;
+
+export const toolsPrompt = createPrompt(
+  toolsTemplate,
+  ({
+    outputs,
+    updates,
+    context,
+  }: {
+    context: string | string[];
+    outputs: Output[];
+    updates: string | string[];
+  }) => ({
+    context: context,
+    outputs: outputs.map(formatOutputInterface),
+    updates: updates,
+  })
+);
+
+const toolsResultsTemplate = `
+You are an AI agent tasked with analyzing the results of previously initiated actions and formulating appropriate responses based on these results.
+You will be provided with the original context, your previous analysis, and the results of the actions you initiated.
+
+## Instructions
+- Correlate each action result with the action call it answers using its callId.
+- Check the success or failure status of each action. Failed results include an error, correct the arguments and call the tool again if it makes sense.
+- Determine whether the combined results fulfill the original request or if follow-up actions are needed.
+- Initiate follow-up actions by calling their tools. IMPORTANT: Never end your response with a plan to do something without actually doing it.
+- Use the ${FINAL_RESPONSE_TOOL} tool to send outputs. Never repeat your outputs.
+- Set finalize to true in the ${FINAL_RESPONSE_TOOL} tool when no further actions or outputs are needed and the flow should end.
+
+Here are the available outputs you can send with the ${FINAL_RESPONSE_TOOL} tool:
+<outputs>
+{{outputs}}
+</outputs>
+
+Here is the current contexts:
+<contexts>
+{{context}}
+</contexts>
+
+Here is the contexts that triggered the actions:
+<contexts>
+{{updates}}
+</contexts>
+
+Now, review your current chain of reasoning/actions/outputs:
+
+<chain>
+{{logs}}
+</chain>
+
+Now, analyze the latests action results:
+
+<action_results>
+{{results}}
+</action_results>
+`;
+
+export const toolsResultsPrompt = createPrompt(
+  toolsResultsTemplate,
+  ({
+    outputs,
+    updates,
+    context,
+    logs,
+    results,
+  }: {
+    context: string | string[];
+    outputs: Output[];
+    updates: string | string[];
+    logs: Log[];
+    results: ActionResult[];
+  }) => ({
+    logs: logs.map((i) => formatContextLog(i)).flat(),
+    results: results.map(formatContextLog),
+    context: context,
+    outputs: outputs.map(formatOutputInterface),
+    updates: updates,
+  })
+);
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { streamText } from "ai";
+import { MockLanguageModelV1, simulateReadableStream } from "ai/test";
+import { z } from "zod";
+import { toolCallingProtocol } from "./protocols";
+import type { StackElement } from "./prompts/main";
+import { action } from "./utils";
+import type { AnyAction, Output } from "./types";
+
+const actions = [
+  action({
+    name: "mcp.echo",
+    description: "Echoes a value",
+    schema: z.object({ value: z.string() }),
+    handler: async (call) => call.data,
+  }),
+];
+
+const outputs: Output[] = [
+  {
+    type: "message",
+    schema: z.object({ content: z.string() }),
+    handler: async () => {},
+  },
+];
+
+function toolCall(toolName: string, args: string) {
+  return {
+    type: "tool-call" as const,
+    toolCallType: "function" as const,
+    toolCallId: toolName,
+    toolName,
+    args,
+  };
+}
+
+async function collect(chunks: any[], available: AnyAction[] = actions) {
+  const model = new MockLanguageModelV1({
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          ...chunks,
+          {
+            type: "finish",
+            finishReason: "stop",
+            usage: { promptTokens: 1, completionTokens: 1 },
+          },
+        ],
+      }),
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }),
+  });
+
+  const result = streamText({
+    model,
+    prompt: "test",
+    ...toolCallingProtocol.request({ actions: available, outputs }),
+  });
+
+  const elements: StackElement[] = [];
+
+  await toolCallingProtocol.handleStream({
+    result,
+    actions: available,
+    index: 1,
+    handler: (el) => {
+      if (el.done) elements.push(el);
+    },
+  });
+
+  return elements.map(({ tag, attributes, content }) => ({
+    tag,
+    attributes,
+    content: content.join(""),
+  }));
+}
+
+describe("toolCallingProtocol", () => {
+  it("should expose actions and the final response as tools", () => {
+    const { tools, toolChoice } = toolCallingProtocol.request({
+      actions,
+      outputs,
+    });
+
+    expect(Object.keys(tools!)).toEqual(["mcp_echo", "final_response"]);
+    expect(tools!.mcp_echo.description).toBe("Echoes a value");
+    expect(toolChoice).toBe("required");
+  });
+
+  it("should map the stream to reasoning, action calls and outputs", async () => {
+    const elements = await collect([
+      { type: "text-delta", textDelta: "Echoing " },
+      { type: "text-delta", textDelta: "hi" },
+      toolCall("mcp_echo", '{"value":"hi"}'),
+      toolCall(
+        "final_response",
+        '{"outputs":[{"type":"message","data":{"content":"sent"}}],"finalize":true}'
+      ),
+    ]);
+
+    expect(elements).toEqual([
+      { tag: "reasoning", attributes: {}, content: "Echoing hi" },
+      {
+        tag: "action_call",
+        attributes: { name: "mcp.echo" },
+        content: '{"value":"hi"}',
+      },
+      {
+        tag: "output",
+        attributes: { type: "message" },
+        content: '{"content":"sent"}',
+      },
+      { tag: "finalize", attributes: {}, content: "" },
+    ]);
+  });
+
+  it("should hand over invalid tool calls as action calls", async () => {
+    const elements = await collect([
+      toolCall("mcp_echo", '{"value":1}'),
+      toolCall("unknown", "{}"),
+    ]);
+
+    expect(elements).toEqual([
+      {
+        tag: "action_call",
+        attributes: { name: "mcp.echo" },
+        content: '{"value":1}',
+      },
+      { tag: "action_call", attributes: { name: "unknown" }, content: "{}" },
+    ]);
+  });
+
+  it("should suffix the tool names of colliding actions", async () => {
+    const colliding = [
+      ...actions,
+      action({ name: "mcp_echo", schema: z.object({}), handler: () => ({}) }),
+      action({
+        name: "final.response",
+        schema: z.object({}),
+        handler: () => ({}),
+      }),
+    ];
+
+    const { tools } = toolCallingProtocol.request({
+      actions: colliding,
+      outputs,
+    });
+
+    expect(Object.keys(tools!)).toEqual([
+      "mcp_echo",
+      "mcp_echo_2",
+      "final_response_2",
+      "final_response",
+    ]);
+
+    const elements = await collect(
+      [toolCall("mcp_echo_2", "{}"), toolCall("final_response_2", "{}")],
+      colliding
+    );
+
+    expect(elements.map(({ attributes }) => attributes.name)).toEqual([
+      "mcp_echo",
+      "final.response",
+    ]);
+  });
+
+  it("should report malformed final responses as parse errors", async () => {
+    const elements = await collect([
+      toolCall("final_response", '{"finalize":'),
+    ]);
+
+    expect(elements).toEqual([
+      {
+        tag: "parse_error",
+        attributes: {
+          name: "final_response",
+          error: expect.any(String),
+        },
+        content: '{"finalize":',
+      },
+    ]);
+  });
+});
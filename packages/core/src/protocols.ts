@@ -0,0 +1,304 @@
+import {
+  InvalidToolArgumentsError,
+  NoSuchToolError,
+  tool,
+  type ToolSet,
+} from "ai";
+import { z } from "zod";
+import {
+  handleStream,
+  prompt,
+  resultsPrompt,
+  wrapStream,
+  type StackElement,
+} from "./prompts/main";
+import {
+  FINAL_RESPONSE_TOOL,
+  toolsPrompt,
+  toolsResultsPrompt,
+} from "./prompts/tools";
+import type { AnyAction, Output, ResponseProtocol } from "./types";
+
+/**
+ * Protocol where the model answers with XML tags: `<reasoning>`,
+ * `<action_call name>`, `<output type>` and `<finalize/>`.
+ */
+export const xmlProtocol: ResponseProtocol = {
+  name: "xml",
+
+  prompt({ step, context, updates, outputs, actions, logs, results }) {
+    if (step === "results") {
+      return resultsPrompt({
+        context,
+        updates,
+        outputs,
+        actions,
+        logs: logs ?? [],
+        results: results ?? [],
+      });
+    }
+
+    return prompt({ context, updates, outputs, actions });
+  },
+
+  request() {
+    return {
+      stopSequences: ["</response>"],
+      prefill: "<think>",
+    };
+  },
+
+  async handleStream({ result, index, handler }) {
+    await handleStream(
+      wrapStream(result.textStream, "<think>", "</response>"),
+      index,
+      handler
+    );
+  },
+};
+
+/**
+ * Converts an action name into a valid tool name.
+ */
+function toToolName(name: string) {
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * Maps tool names to their actions. Actions converting to the name of another
+ * tool, the final response tool included, get a numbered suffix.
+ */
+function getActionTools(actions: AnyAction[]) {
+  const tools = new Map<string, AnyAction>();
+
+  for (const action of actions) {
+    const base = toToolName(action.name);
+    let name = base;
+
+    for (let n = 2; name === FINAL_RESPONSE_TOOL || tools.has(name); n++) {
+      name = `${base}_${n}`;
+    }
+
+    tools.set(name, action);
+  }
+
+  return tools;
+}
+
+function createFinalResponseSchema(outputs: Output[]) {
+  const items = outputs.map((output) =>
+    z.object({
+      type: z.literal(output.type),
+      data: output.schema,
+    })
+  );
+
+  const [first, second, ...rest] = items;
+  const item = second ? z.union([first, second, ...rest]) : first;
+
+  return z.object({
+    ...(item && {
+      outputs: z
+        .array(item)
+        .describe("The outputs to send, leave empty if none are needed"),
+    }),
+    finalize: z
+      .boolean()
+      .describe("true when no further actions or outputs are needed"),
+  });
+}
+
+/**
+ * Protocol built on native tool calling, where actions map to tools and
+ * outputs are sent through a structured final response tool. Text written
+ * by the model is kept as reasoning.
+ */
+export const toolCallingProtocol: ResponseProtocol = {
+  name: "tool-calling",
+
+  prompt({ step, context, updates, outputs, logs, results }) {
+    if (step === "results") {
+      return toolsResultsPrompt({
+        context,
+        updates,
+        outputs,
+        logs: logs ?? [],
+        results: results ?? [],
+      });
+    }
+
+    return toolsPrompt({ context, updates, outputs });
+  },
+
+  request({ actions, outputs }) {
+    const tools: ToolSet = {};
+
+    for (const [name, action] of getActionTools(actions)) {
+      tools[name] = tool({
+        description:
+          [action.description, action.instructions]
+            .filter((text) => !!text)
+            .join("\n\n") || undefined,
+        parameters: action.schema,
+      });
+    }
+
+    tools[FINAL_RESPONSE_TOOL] = tool({
+      description:
+        "Sends outputs and tells whether the flow should end. Call it after initiating the actions you need.",
+      parameters: createFinalResponseSchema(outputs),
+    });
+
+    return {
+      tools,
+      toolChoice: "required",
+    };
+  },
+
+  async handleStream({ result, actions, index, handler }) {
+    const actionNames = new Map(
+      Array.from(getActionTools(actions), ([name, action]) => [
+        name,
+        action.name,
+      ])
+    );
+
+    let thought: StackElement | undefined;
+
+    // Smoothed text can arrive after the tool calls of a step, so calls are
+    // held back until the reasoning is complete to keep the chain in order
+    let pending: StackElement[] = [];
+
+    function flush() {
+      if (thought) {
+        handler({ ...thought, done: true });
+        thought = undefined;
+      }
+
+      for (const el of pending) handler(el);
+      pending = [];
+    }
+
+    function push(
+      tag: string,
+      attributes: Record<string, any>,
+      content: string
+    ) {
+      pending.push({
+        index: index++,
+        tag,
+        attributes,
+        content: [content],
+        done: true,
+      });
+    }
+
+    function pushFinalResponse(args: any) {
+      for (const output of Array.isArray(args?.outputs) ? args.outputs : []) {
+        push(
+          "output",
+          { type: output?.type },
+          typeof output?.data === "string"
+            ? output.data
+            : JSON.stringify(output?.data)
+        );
+      }
+
+      if (args?.finalize === true) push("finalize", {}, "");
+    }
+
+    for await (const part of result.fullStream) {
+      switch (part.type) {
+        case "reasoning":
+        case "text-delta": {
+          if (!thought) {
+            thought = {
+              index: index++,
+              tag: "reasoning",
+              attributes: {},
+              content: [],
+              done: false,
+            };
+          }
+
+          thought.content.push(part.textDelta);
+          handler(thought);
+          break;
+        }
+
+        case "step-finish": {
+          flush();
+          break;
+        }
+
+        case "tool-call": {
+          if (part.toolName === FINAL_RESPONSE_TOOL) {
+            pushFinalResponse(part.args);
+          } else {
+            push(
+              "action_call",
+              { name: actionNames.get(part.toolName) ?? part.toolName },
+              JSON.stringify(part.args)
+            );
+          }
+          break;
+        }
+
+        case "error": {
+          // Invalid calls are handed over as action calls so the agent
+          // reports them back to the model like any other failed call
+          if (NoSuchToolError.isInstance(part.error)) {
+            push("action_call", { name: part.error.toolName }, "{}");
+            break;
+          }
+
+          if (InvalidToolArgumentsError.isInstance(part.error)) {
+            const { toolName, toolArgs } = part.error;
+
+            if (toolName === FINAL_RESPONSE_TOOL) {
+              try {
+                pushFinalResponse(JSON.parse(toolArgs));
+              } catch (error) {
+                // Reported back to the model as a failed call of the tool
+                push(
+                  "parse_error",
+                  {
+                    name: toolName,
+                    error:
+                      error instanceof Error ? error.message : String(error),
+                  },
+                  toolArgs
+                );
+              }
+            } else {
+              push(
+                "action_call",
+                { name: actionNames.get(toolName) ?? toolName },
+                toolArgs
+              );
+            }
+            break;
+          }
+
+          throw part.error;
+        }
+
+        default:
+          break;
+      }
+    }
+
+    flush();
+  },
+};
+
+/**
+ * Checks whether an error emitted by the model stream is an invalid tool
+ * call, which protocols report back to the model instead of failing.
+ */
+export function isToolCallError(error: unknown) {
+  return (
+    NoSuchToolError.isInstance(error) ||
+    InvalidToolArgumentsError.isInstance(error)
+  );
+}
@@ -3,6 +3,7 @@ import type { Container } from "./container";
 type ServiceProvider = {
   register?: (container: Container) => void;
   boot?: (container: Container) => void | Promise<void>;
+  shutdown?: (container: Container) => void | Promise<void>;
 };
 
 type ServiceState = {
@@ -14,6 +15,7 @@ type ServiceState = {
 type ServiceManager = {
   register: (provider: ServiceProvider) => void;
   bootAll: () => Promise<void>;
+  shutdownAll: () => Promise<void>;
   isBooted: (provider: ServiceProvider) => boolean;
   isRegistered: (provider: ServiceProvider) => boolean;
 };
@@ -45,6 +47,15 @@ const createServiceManager = (container: Container): ServiceManager => {
     if (provider.boot) await provider.boot(container);
   };
 
+  const shutdownProvider = async (
+    container: Container,
+    provider: ServiceProvider
+  ): Promise<void> => {
+    if (!state.booted.has(provider)) return;
+    state.booted.delete(provider);
+    if (provider.shutdown) await provider.shutdown(container);
+  };
+
   return {
     register: (provider: ServiceProvider): void => {
       if (!state.providers.includes(provider)) {
@@ -65,6 +76,24 @@ const createServiceManager = (container: Container): ServiceManager => {
       }
     },
 
+    shutdownAll: async (): Promise<void> => {
+      // Shutdown in reverse boot order so dependents go down first
+      const booted = Array.from(state.booted).reverse();
+      const errors: unknown[] = [];
+
+      for (const provider of booted) {
+        try {
+          await shutdownProvider(container, provider);
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+
+      if (errors.length > 0) {
+        throw new AggregateError(errors, "Failed to shutdown services");
+      }
+    },
+
     isBooted: (provider: ServiceProvider): boolean =>
       state.booted.has(provider),
 
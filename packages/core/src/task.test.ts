@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { TaskRunner, task } from "./task";
+import {
+  TaskRunner,
+  TaskTimeoutError,
+  createTaskJournal,
+  getRetryDelay,
+  isRetryableError,
+  task,
+} from "./task";
+import { createMemoryStore } from "./memory";
 
 describe("TaskRunner", () => {
   let runner: TaskRunner;
@@ -135,6 +143,195 @@ describe("TaskRunner", () => {
     // Should execute in order of priority: highest (3) to lowest (0)
     expect(order).toEqual([1, 2, 0, 3]);
   });
+  it("should reject queued tasks on clear", async () => {
+    const started: number[] = [];
+    const tasks = Array.from({ length: 4 }, (_, i) =>
+      runner.enqueue(async () => {
+        started.push(i);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return i;
+      })
+    );
+
+    // Let the first two tasks start before clearing the queue
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(runner.clear(new Error("cleared"))).toBe(2);
+
+    const results = await Promise.allSettled(tasks);
+
+    expect(started).toEqual([0, 1]);
+    expect(results.map((r) => r.status)).toEqual([
+      "fulfilled",
+      "fulfilled",
+      "rejected",
+      "rejected",
+    ]);
+  });
+
+  it("should drain running and queued tasks", async () => {
+    let completed = 0;
+    Array.from({ length: 3 }, () =>
+      runner.enqueue(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        completed++;
+      })
+    );
+
+    await expect(runner.drain()).resolves.toBe(true);
+    expect(completed).toBe(3);
+    expect(runner.queuedTasksCount).toBe(0);
+    expect(runner.activeTasksCount).toBe(0);
+  });
+
+  it("should stop draining after the timeout", async () => {
+    const slow = runner.enqueue(
+      () => new Promise((resolve) => setTimeout(resolve, 100))
+    );
+
+    await expect(runner.drain(10)).resolves.toBe(false);
+    await slow;
+  });
+});
+
+describe("TaskRunner queues", () => {
+  let runner: TaskRunner;
+
+  beforeEach(() => {
+    runner = new TaskRunner(1);
+  });
+
+  const sleep = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  it("should run named queues independently", async () => {
+    const order: string[] = [];
+
+    const slow = runner.enqueue(
+      async () => {
+        await sleep(30);
+        order.push("llm");
+      },
+      0,
+      { queue: "llm" }
+    );
+    const fast = runner.enqueue(
+      async () => {
+        order.push("actions");
+      },
+      0,
+      { queue: "actions" }
+    );
+
+    await Promise.all([slow, fast]);
+    expect(order).toEqual(["actions", "llm"]);
+  });
+
+  it("should apply per-queue concurrency and report stats", async () => {
+    runner.setConcurrency(2, "actions");
+
+    const tasks = Array.from({ length: 3 }, () =>
+      runner.enqueue(() => sleep(20), 0, { queue: "actions" })
+    );
+    runner.enqueue(() => sleep(20), 0, { queue: "memory" });
+
+    await sleep(5);
+
+    expect(runner.getQueueStats()).toEqual({
+      default: { queued: 0, running: 0, concurrency: 1 },
+      actions: { queued: 1, running: 2, concurrency: 2 },
+      memory: { queued: 0, running: 1, concurrency: 1 },
+    });
+    expect(runner.queuedTasksCount).toBe(1);
+    expect(runner.activeTasksCount).toBe(3);
+
+    await Promise.all(tasks);
+    await runner.drain();
+  });
+
+  it("should rate limit tasks sharing a key", async () => {
+    runner.setConcurrency(5);
+    runner.setRateLimit("openai", { limit: 2, interval: 100 });
+
+    const startedAt: number[] = [];
+    const start = Date.now();
+
+    await Promise.all(
+      Array.from({ length: 3 }, () =>
+        runner.enqueue(
+          async () => {
+            startedAt.push(Date.now() - start);
+          },
+          0,
+          { rateLimitKey: "openai" }
+        )
+      )
+    );
+
+    expect(startedAt[0]).toBeLessThan(40);
+    expect(startedAt[1]).toBeLessThan(40);
+    expect(startedAt[2]).toBeGreaterThanOrEqual(40);
+  });
+
+  it("should not block other tasks behind a rate limited one", async () => {
+    runner.setRateLimit("slow", { limit: 1, interval: 1000 });
+
+    const order: string[] = [];
+    const limited = Array.from({ length: 2 }, (_, i) =>
+      runner.enqueue(
+        async () => {
+          order.push(`slow-${i}`);
+        },
+        0,
+        { rateLimitKey: "slow" }
+      )
+    );
+    const other = runner.enqueue(async () => {
+      order.push("other");
+    });
+
+    await other;
+    expect(order).toEqual(["slow-0", "other"]);
+
+    expect(runner.clear()).toBe(1);
+    await expect(limited[1]).rejects.toThrow("Task runner cleared");
+  });
+
+  it("should take a rate limit token for each retry", async () => {
+    runner.setRateLimit("openai", { limit: 1, interval: 100 });
+
+    const startedAt: number[] = [];
+    const start = Date.now();
+
+    const flaky = task(
+      "flaky",
+      async () => {
+        startedAt.push(Date.now() - start);
+        if (startedAt.length < 3) {
+          throw Object.assign(new Error("rate limited"), { status: 429 });
+        }
+        return "ok";
+      },
+      { retry: { retries: 2, minDelay: 1, jitter: false } }
+    );
+
+    await expect(
+      runner.enqueueTask(flaky, {}, { rateLimitKey: "openai" })
+    ).resolves.toBe("ok");
+
+    expect(startedAt[0]).toBeLessThan(40);
+    expect(startedAt[1]).toBeGreaterThanOrEqual(90);
+    expect(startedAt[2]).toBeGreaterThanOrEqual(190);
+  });
+
+  it("should route enqueued tasks using task options", async () => {
+    const echo = task("echo", async (value: string) => value);
+
+    const result = runner.enqueueTask(echo, "hello", { queue: "llm" });
+    expect(runner.getQueueStats().llm.queued).toBe(1);
+
+    await expect(result).resolves.toBe("hello");
+  });
 });
 
 describe("task function", () => {
@@ -235,4 +432,186 @@ describe("task function", () => {
     await Promise.all([direct, enqueued]);
     expect(executionOrder).toEqual([25, 50]); // Enqueued task should finish first due to shorter timeout
   });
+
+  it("should retry failed attempts and report them through debug", async () => {
+    const debug = vi.fn();
+    let attempts = 0;
+
+    const testTask = task(
+      "flaky-task",
+      async () => {
+        attempts++;
+        if (attempts < 3)
+          throw Object.assign(new Error("busy"), { status: 429 });
+        return "ok";
+      },
+      { retry: { retries: 3, minDelay: 1 } }
+    );
+
+    await expect(runner.enqueueTask(testTask, {}, { debug })).resolves.toBe(
+      "ok"
+    );
+    expect(attempts).toBe(3);
+    expect(debug).toHaveBeenCalledTimes(2);
+    expect(debug.mock.calls[0][0]).toBe("flaky-task");
+    expect(debug.mock.calls[0][2]).toMatchObject({ attempt: 1, retries: 3 });
+  });
+
+  it("should not retry errors rejected by the predicate", async () => {
+    let attempts = 0;
+    const testTask = task("failing-task", async () => {
+      attempts++;
+      throw new Error("invalid params");
+    });
+
+    await expect(
+      testTask({}, { retry: { retries: 3, minDelay: 1 } })
+    ).rejects.toThrow("invalid params");
+    expect(attempts).toBe(1);
+
+    await expect(
+      testTask(
+        {},
+        { retry: { retries: 2, minDelay: 1, retryable: () => true } }
+      )
+    ).rejects.toThrow("invalid params");
+    expect(attempts).toBe(4);
+  });
+
+  it("should time out slow attempts", async () => {
+    const testTask = task(
+      "slow-task",
+      () => new Promise((resolve) => setTimeout(resolve, 100))
+    );
+
+    await expect(testTask({}, { timeout: 10 })).rejects.toBeInstanceOf(
+      TaskTimeoutError
+    );
+  });
+
+  it("should abort the signal of timed out attempts", async () => {
+    const signals: AbortSignal[] = [];
+    const testTask = task("slow-task", (_params, { abortSignal }) => {
+      signals.push(abortSignal);
+      return new Promise((resolve) => setTimeout(resolve, 100));
+    });
+
+    await expect(
+      testTask({}, { timeout: 10, retry: { retries: 1, minDelay: 1 } })
+    ).rejects.toBeInstanceOf(TaskTimeoutError);
+
+    expect(signals).toHaveLength(2);
+    expect(signals[0]).not.toBe(signals[1]);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+    expect(signals[0].reason).toBeInstanceOf(TaskTimeoutError);
+  });
+});
+
+describe("retry policy", () => {
+  it("should back off exponentially up to the max delay", () => {
+    const options = { minDelay: 100, maxDelay: 1000, jitter: false };
+
+    expect(getRetryDelay(1, options)).toBe(100);
+    expect(getRetryDelay(2, options)).toBe(200);
+    expect(getRetryDelay(3, options)).toBe(400);
+    expect(getRetryDelay(10, options)).toBe(1000);
+  });
+
+  it("should keep jittered delays within bounds", () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(2, { minDelay: 100 });
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(200);
+    }
+  });
+
+  it("should detect transient errors", () => {
+    expect(isRetryableError(new TaskTimeoutError("task", 10))).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError({ statusCode: 400 })).toBe(false);
+    expect(
+      isRetryableError(Object.assign(new Error(), { code: "ECONNRESET" }))
+    ).toBe(true);
+    expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+    expect(
+      isRetryableError(new Error("wrapped", { cause: { status: 429 } }))
+    ).toBe(true);
+    expect(isRetryableError(new Error("invalid params"))).toBe(false);
+  });
+});
+
+describe("task journal", () => {
+  it("should track task descriptors through their lifecycle", async () => {
+    const store = createMemoryStore();
+    const journal = createTaskJournal(store, "journal-lifecycle");
+
+    await journal.add({ id: "a", key: "action", params: { value: 1 } });
+    await journal.add({ id: "b", key: "action", params: { value: 2 } });
+    await journal.update("a", "running");
+    await journal.remove("b");
+
+    const descriptors = await journal.list();
+    expect(descriptors).toHaveLength(1);
+    expect(descriptors[0]).toMatchObject({
+      id: "a",
+      key: "action",
+      status: "running",
+      params: { value: 1 },
+    });
+
+    // Persisted in the store so a new journal picks it up after a restart
+    const restored = createTaskJournal(store, "journal-lifecycle");
+    expect(await restored.list()).toEqual(descriptors);
+  });
+
+  it("should not lose concurrent updates", async () => {
+    const journal = createTaskJournal(createMemoryStore(), "journal-batch");
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        journal.add({ id: String(i), key: "action", params: {} })
+      )
+    );
+
+    expect(await journal.list()).toHaveLength(10);
+  });
+
+  it("should keep the tasks of journals sharing a store", async () => {
+    const store = createMemoryStore({ shared: false });
+    const journals = [createTaskJournal(store), createTaskJournal(store)];
+
+    await Promise.all(
+      journals.map((journal, i) =>
+        journal.add({ id: String(i), key: "action", params: {} })
+      )
+    );
+    await journals[0].update("1", "running");
+
+    expect(await journals[1].list()).toEqual([
+      expect.objectContaining({ id: "0", status: "queued" }),
+      expect.objectContaining({ id: "1", status: "running" }),
+    ]);
+    expect(await store.get("tasks:1")).toMatchObject({ status: "running" });
+  });
+
+  it("should migrate the tasks saved under one key", async () => {
+    const store = createMemoryStore({ shared: false });
+    await store.set("tasks", [
+      {
+        id: "a",
+        key: "action",
+        params: {},
+        status: "running",
+        createdAt: 1,
+        updatedAt: 1,
+      },
+    ]);
+
+    const journal = createTaskJournal(store);
+
+    expect(await journal.list()).toEqual([
+      expect.objectContaining({ id: "a", status: "running" }),
+    ]);
+    expect(await store.get("tasks")).toBeNull();
+  });
 });
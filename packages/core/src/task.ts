@@ -1,14 +1,42 @@
 import { v7 as randomUUIDv7 } from "uuid";
-import type { Debugger } from "./types";
+import { APICallError } from "ai";
+import type { Debugger, MemoryStore } from "./types";
+
+/**
+ * Options for retrying a failed task.
+ */
+export type RetryOptions = {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry in milliseconds */
+  minDelay?: number;
+  /** Upper bound for the delay between retries in milliseconds */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each retry */
+  factor?: number;
+  /** Randomize delays so concurrent retries spread out */
+  jitter?: boolean;
+  /** Returns true when the error should be retried */
+  retryable?: (error: unknown) => boolean;
+};
 
 /**
  * Options for configuring a task.
  */
 export type TaskOptions = {
   limit?: number;
-  retry?: number;
+  /** Number of retries or a retry policy */
+  retry?: number | RetryOptions;
+  /** Timeout in milliseconds for each attempt */
+  timeout?: number;
   debug?: Debugger;
   priority?: number;
+  /** Name of the TaskRunner queue the task runs in */
+  queue?: string;
+  /** Key of the TaskRunner rate limit the task is subject to */
+  rateLimitKey?: string;
+  /** Waits before each retry, the TaskRunner sets it to take a rate limit token */
+  beforeRetry?: () => Promise<void>;
   callId?: string;
 };
 
@@ -18,6 +46,8 @@ export type TaskOptions = {
 export type TaskContext = {
   callId: string;
   debug: Debugger;
+  /** Aborted when the attempt times out */
+  abortSignal: AbortSignal;
 };
 
 /**
@@ -33,6 +63,144 @@ type InferTaskParams<T extends Task<any, any>> =
 type InferTaskResult<T extends Task<any, any>> =
   T extends Task<any, infer Result> ? Result : unknown;
 
+/**
+ * Error thrown when a task attempt exceeds its timeout.
+ */
+export class TaskTimeoutError extends Error {
+  constructor(
+    public key: string,
+    public timeout: number
+  ) {
+    super(`Task ${key} timed out after ${timeout}ms`);
+    this.name = "TaskTimeoutError";
+  }
+}
+
+const retryableStatusCodes = new Set([408, 425, 429]);
+
+const retryableErrorCodes = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  // ethers
+  "NETWORK_ERROR",
+  "SERVER_ERROR",
+  "TIMEOUT",
+]);
+
+/**
+ * Default retry predicate, matching timeouts, rate limits, server errors and network failures.
+ * @param error - The error thrown by the task
+ * @returns True if the error is likely transient
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  if (error instanceof TaskTimeoutError) return true;
+  if (error instanceof Error && error.name === "AbortError") return false;
+  if (APICallError.isInstance(error)) return error.isRetryable;
+
+  const { status, statusCode, code, cause } = error as Record<string, any>;
+  const httpStatus = status ?? statusCode;
+
+  if (typeof httpStatus === "number") {
+    return retryableStatusCodes.has(httpStatus) || httpStatus >= 500;
+  }
+
+  if (typeof code === "string" && retryableErrorCodes.has(code)) return true;
+
+  if (error instanceof TypeError && error.message === "fetch failed") {
+    return true;
+  }
+
+  return cause !== undefined && cause !== error && isRetryableError(cause);
+}
+
+/**
+ * Computes the delay before a retry using exponential backoff.
+ * @param attempt - The retry attempt, starting at 1
+ * @param options - The retry policy
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(
+  attempt: number,
+  {
+    minDelay = 500,
+    maxDelay = 30_000,
+    factor = 2,
+    jitter = true,
+  }: Omit<RetryOptions, "retries">
+) {
+  const delay = Math.min(maxDelay, minDelay * Math.pow(factor, attempt - 1));
+  // Equal jitter keeps at least half of the computed delay
+  return jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Runs an attempt, aborting its signal and rejecting once it times out so
+ * the attempt can stop before it is retried.
+ */
+function withTimeout<T>(
+  attempt: (abortSignal: AbortSignal) => Promise<T>,
+  key: string,
+  timeout?: number
+): Promise<T> {
+  const controller = new AbortController();
+  if (timeout === undefined) return attempt(controller.signal);
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const error = new TaskTimeoutError(key, timeout);
+      controller.abort(error);
+      reject(error);
+    }, timeout);
+
+    Promise.resolve()
+      .then(() => attempt(controller.signal))
+      .then(resolve, reject)
+      .finally(() => clearTimeout(timer));
+  });
+}
+
+/**
+ * Name of the queue used when a task does not specify one.
+ */
+export const DEFAULT_QUEUE = "default";
+
+/**
+ * Token bucket rate limit allowing `limit` tasks per `interval`.
+ */
+export type RateLimit = {
+  /** Maximum number of tasks started per interval, also the burst size */
+  limit: number;
+  /** Interval in milliseconds over which the limit refills */
+  interval: number;
+};
+
+/**
+ * Options for routing an enqueued task.
+ */
+export type EnqueueOptions = {
+  /** Name of the queue the task runs in */
+  queue?: string;
+  /** Key of the rate limit the task consumes a token from */
+  rateLimitKey?: string;
+};
+
+/**
+ * Snapshot of a queue's state.
+ */
+export type QueueStats = {
+  queued: number;
+  running: number;
+  concurrency: number;
+};
+
 /**
  * Represents a task that is queued for execution.
  */
@@ -40,114 +208,344 @@ interface QueuedTask {
   id: string;
   execute: () => Promise<any>;
   priority: number;
+  rateLimitKey?: string;
   resolve: (value: any) => void;
   reject: (reason: any) => void;
 }
 
 /**
- * Manages the execution of tasks with concurrency control.
+ * A named lane of tasks with its own concurrency limit.
+ */
+interface Queue {
+  tasks: QueuedTask[];
+  running: Set<string>;
+  concurrency: number;
+}
+
+/**
+ * Token bucket refilled continuously over its interval.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly rateLimit: RateLimit) {
+    this.tokens = rateLimit.limit;
+  }
+
+  private refill() {
+    const now = Date.now();
+    const { limit, interval } = this.rateLimit;
+    this.tokens = Math.min(
+      limit,
+      this.tokens + ((now - this.updatedAt) * limit) / interval
+    );
+    this.updatedAt = now;
+  }
+
+  /**
+   * Takes a token if one is available.
+   */
+  take(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Milliseconds until the next token is available.
+   */
+  waitTime(): number {
+    this.refill();
+    if (this.tokens >= 1) return 0;
+    const { limit, interval } = this.rateLimit;
+    return Math.ceil(((1 - this.tokens) * interval) / limit);
+  }
+}
+
+/**
+ * Manages the execution of tasks across named queues with concurrency
+ * control and per-key rate limiting.
  */
 export class TaskRunner {
-  private queue: QueuedTask[] = [];
-  private running: Set<string> = new Set();
-  private concurrency: number;
+  private queues = new Map<string, Queue>();
+  private rateLimits = new Map<string, TokenBucket>();
+  private defaultConcurrency: number;
   private processing: boolean = false;
+  private wakeUp?: { timer: ReturnType<typeof setTimeout>; at: number };
+  private idleListeners: (() => void)[] = [];
 
   /**
    * Creates a new TaskRunner instance.
-   * @param concurrency - The maximum number of tasks to run concurrently.
+   * @param concurrency - The maximum number of tasks to run concurrently in
+   * the default queue and in queues created on first use.
    */
   constructor(concurrency: number = 1) {
-    this.concurrency = concurrency;
+    this.defaultConcurrency = concurrency;
+    this.getQueue(DEFAULT_QUEUE);
+  }
+
+  private getQueue(name: string): Queue {
+    let queue = this.queues.get(name);
+    if (!queue) {
+      queue = {
+        tasks: [],
+        running: new Set(),
+        concurrency: this.defaultConcurrency,
+      };
+      this.queues.set(name, queue);
+    }
+    return queue;
   }
 
   /**
-   * Sets the concurrency level for the task runner.
+   * Sets the concurrency level of a queue.
    * @param concurrency - The new concurrency level.
+   * @param queue - The queue to update, defaults to the default queue.
+   */
+  setConcurrency(concurrency: number, queue: string = DEFAULT_QUEUE) {
+    this.getQueue(queue).concurrency = concurrency;
+    this.processQueues();
+  }
+
+  /**
+   * Sets or removes the rate limit for a key.
+   * @param key - The rate limit key, e.g. a model provider or action name
+   * @param rateLimit - The limit to apply, or undefined to remove it
    */
-  setConcurrency(concurrency: number) {
-    this.concurrency = concurrency;
-    this.processQueue();
+  setRateLimit(key: string, rateLimit: RateLimit | undefined) {
+    if (rateLimit) {
+      this.rateLimits.set(key, new TokenBucket(rateLimit));
+    } else {
+      this.rateLimits.delete(key);
+    }
+    this.processQueues();
+  }
+
+  /**
+   * Waits for a token of a rate limit, so retries of a running task are
+   * limited like new tasks.
+   * @param key - The rate limit key
+   */
+  async takeToken(key: string): Promise<void> {
+    while (true) {
+      const bucket = this.rateLimits.get(key);
+      if (!bucket || bucket.take()) return;
+      await new Promise((resolve) => setTimeout(resolve, bucket.waitTime()));
+    }
   }
 
   /**
-   * Processes the task queue, running tasks up to the concurrency limit.
+   * Processes all queues, running tasks up to each queue's concurrency limit.
    */
-  private async processQueue() {
+  private processQueues() {
     if (this.processing) return;
     this.processing = true;
 
     try {
-      while (this.queue.length > 0 && this.running.size < this.concurrency) {
-        // Sort entire queue by priority
-        this.queue.sort((a, b) => b.priority - a.priority);
-
-        const task = this.queue.shift();
-        if (!task) break;
-
-        this.running.add(task.id);
-
-        // Execute task without awaiting to allow concurrent execution
-        task
-          .execute()
-          .then((result) => {
-            task.resolve(result);
-          })
-          .catch((error) => {
-            task.reject(error);
-          })
-          .finally(() => {
-            this.running.delete(task.id);
-            // Try to process more tasks after one completes
-            this.processQueue();
-          });
+      for (const queue of this.queues.values()) {
+        this.processQueue(queue);
       }
     } finally {
       this.processing = false;
     }
   }
 
+  private processQueue(queue: Queue) {
+    // Sort entire queue by priority
+    queue.tasks.sort((a, b) => b.priority - a.priority);
+
+    let index = 0;
+    let wait = Infinity;
+
+    while (
+      index < queue.tasks.length &&
+      queue.running.size < queue.concurrency
+    ) {
+      const task = queue.tasks[index];
+      const bucket = task.rateLimitKey
+        ? this.rateLimits.get(task.rateLimitKey)
+        : undefined;
+
+      // Rate limited tasks stay queued without blocking the rest of the lane
+      if (bucket && !bucket.take()) {
+        wait = Math.min(wait, bucket.waitTime());
+        index++;
+        continue;
+      }
+
+      queue.tasks.splice(index, 1);
+      queue.running.add(task.id);
+
+      // Execute task without awaiting to allow concurrent execution
+      task
+        .execute()
+        .then((result) => {
+          task.resolve(result);
+        })
+        .catch((error) => {
+          task.reject(error);
+        })
+        .finally(() => {
+          queue.running.delete(task.id);
+          // Try to process more tasks after one completes
+          this.processQueues();
+          this.notifyIdle();
+        });
+    }
+
+    if (wait !== Infinity) this.scheduleWakeUp(wait);
+  }
+
+  /**
+   * Schedules processing once a rate limited task can start.
+   */
+  private scheduleWakeUp(wait: number) {
+    const at = Date.now() + wait;
+    if (this.wakeUp && this.wakeUp.at <= at) return;
+    if (this.wakeUp) clearTimeout(this.wakeUp.timer);
+
+    this.wakeUp = {
+      at,
+      timer: setTimeout(() => {
+        this.wakeUp = undefined;
+        this.processQueues();
+      }, wait),
+    };
+  }
+
+  /**
+   * Resolves idle listeners once no tasks are queued or running.
+   */
+  private notifyIdle() {
+    if (this.queuedTasksCount > 0 || this.activeTasksCount > 0) return;
+    const listeners = this.idleListeners;
+    this.idleListeners = [];
+    listeners.forEach((listener) => listener());
+  }
+
   /**
    * Enqueues a task for execution.
    * @param taskFn - The function to execute as a task.
    * @param priority - The priority of the task.
+   * @param options - The queue and rate limit key of the task.
    * @returns A promise that resolves when the task is completed.
    */
-  enqueue<T>(taskFn: () => Promise<T>, priority: number = 0): Promise<T> {
+  enqueue<T>(
+    taskFn: () => Promise<T>,
+    priority: number = 0,
+    options: EnqueueOptions = {}
+  ): Promise<T> {
     return new Promise((resolve, reject) => {
       const queuedTask: QueuedTask = {
         id: randomUUIDv7(),
         execute: taskFn,
         priority,
+        rateLimitKey: options.rateLimitKey,
         resolve,
         reject,
       };
 
-      this.queue.push(queuedTask);
+      this.getQueue(options.queue ?? DEFAULT_QUEUE).tasks.push(queuedTask);
       // Use setTimeout to ensure proper task ordering
-      setTimeout(() => this.processQueue(), 0);
+      setTimeout(() => this.processQueues(), 0);
     });
   }
 
   /**
-   * Gets the number of active tasks.
+   * Gets the number of active tasks across all queues.
    */
   get activeTasksCount(): number {
-    return this.running.size;
+    let count = 0;
+    for (const queue of this.queues.values()) count += queue.running.size;
+    return count;
   }
 
   /**
-   * Gets the number of tasks in the queue.
+   * Gets the number of queued tasks across all queues.
    */
   get queuedTasksCount(): number {
-    return this.queue.length;
+    let count = 0;
+    for (const queue of this.queues.values()) count += queue.tasks.length;
+    return count;
+  }
+
+  /**
+   * Gets the depth, running tasks and concurrency of each queue.
+   * @returns Record of queue stats keyed by queue name
+   */
+  getQueueStats(): Record<string, QueueStats> {
+    return Object.fromEntries(
+      Array.from(this.queues, ([name, queue]) => [
+        name,
+        {
+          queued: queue.tasks.length,
+          running: queue.running.size,
+          concurrency: queue.concurrency,
+        },
+      ])
+    );
+  }
+
+  /**
+   * Rejects all queued tasks that have not started yet.
+   * Running tasks are left to complete.
+   * @param reason - The reason passed to each rejected task
+   * @returns The number of tasks that were rejected
+   */
+  clear(reason: unknown = new Error("Task runner cleared")): number {
+    const pending = Array.from(this.queues.values()).flatMap((queue) =>
+      queue.tasks.splice(0)
+    );
+
+    if (this.wakeUp) {
+      clearTimeout(this.wakeUp.timer);
+      this.wakeUp = undefined;
+    }
+
+    for (const task of pending) {
+      task.reject(reason);
+    }
+
+    this.notifyIdle();
+    return pending.length;
+  }
+
+  /**
+   * Waits until no tasks are queued or running.
+   * @param timeout - Optional deadline in milliseconds
+   * @returns True if the runner became idle before the deadline
+   */
+  drain(timeout?: number): Promise<boolean> {
+    if (this.queuedTasksCount === 0 && this.activeTasksCount === 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const listener = () => {
+        if (timer) clearTimeout(timer);
+        resolve(true);
+      };
+
+      this.idleListeners.push(listener);
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          this.idleListeners = this.idleListeners.filter((l) => l !== listener);
+          resolve(false);
+        }, timeout);
+      }
+    });
   }
 
   /**
    * Enqueues a task function for execution.
    * @param taskFn - The task function to execute
    * @param params - Parameters to pass to the task
-   * @param options - Task options including priority
+   * @param options - Task options including priority, queue and rate limit key
    * @returns A promise that resolves when the task is completed
    */
   enqueueTask<TTask extends Task<any, any>>(
@@ -155,10 +553,163 @@ export class TaskRunner {
     params: InferTaskParams<TTask>,
     options: TaskOptions = {}
   ): Promise<InferTaskResult<TTask>> {
-    return this.enqueue(() => taskFn(params, options), options.priority ?? 0);
+    const { rateLimitKey } = options;
+
+    return this.enqueue(
+      () =>
+        taskFn(params, {
+          ...options,
+          // Each retry takes a token, the first attempt took the task's one
+          beforeRetry:
+            options.beforeRetry ??
+            (rateLimitKey ? () => this.takeToken(rateLimitKey) : undefined),
+        }),
+      options.priority ?? 0,
+      { queue: options.queue, rateLimitKey }
+    );
   }
 }
 
+/**
+ * Lifecycle status of a journaled task.
+ */
+export type TaskStatus = "queued" | "running";
+
+/**
+ * Serializable description of a task persisted by a TaskJournal.
+ */
+export type TaskDescriptor<Params = any> = {
+  id: string;
+  /** Kind of task, used to pick how it is resumed */
+  key: string;
+  status: TaskStatus;
+  params: Params;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * Durable record of queued and running tasks, used to resume or fail
+ * interrupted tasks after a crash.
+ */
+export type TaskJournal = {
+  /**
+   * Records a new queued task
+   * @param descriptor - The task to record
+   */
+  add(
+    descriptor: Omit<TaskDescriptor, "status" | "createdAt" | "updatedAt">
+  ): Promise<void>;
+
+  /**
+   * Updates the status of a recorded task
+   * @param id - Id of the task
+   * @param status - The new status
+   */
+  update(id: string, status: TaskStatus): Promise<void>;
+
+  /**
+   * Removes a settled task
+   * @param id - Id of the task
+   */
+  remove(id: string): Promise<void>;
+
+  /**
+   * Lists all recorded tasks
+   */
+  list(): Promise<TaskDescriptor[]>;
+};
+
+/**
+ * Creates a task journal persisted in a memory store. Each task is stored
+ * under its own `<prefix>:<id>` key, so workers sharing the store don't
+ * overwrite the tasks of each other.
+ * @param store - The memory store to persist descriptors in, it must list its keys
+ * @param prefix - Prefix of the keys descriptors are stored under
+ * @returns A new TaskJournal instance
+ */
+export function createTaskJournal(
+  store: MemoryStore,
+  prefix: string = "tasks"
+): TaskJournal {
+  if (!store.keys) {
+    throw new Error("The task journal needs a memory store listing its keys");
+  }
+
+  const listKeys = store.keys.bind(store);
+  const getKey = (id: string) => [prefix, id].join(":");
+
+  // Serialize the changes of this journal so they apply in order
+  let pending: Promise<unknown> = Promise.resolve();
+
+  function modify(fn: () => Promise<void>) {
+    const next = pending.then(fn);
+    pending = next.catch(() => {});
+    return next;
+  }
+
+  // Moves the descriptors saved by older versions under the prefix alone
+  let migrated: Promise<void> | undefined;
+
+  function migrate() {
+    migrated ??= modify(async () => {
+      const descriptors = await store.get<TaskDescriptor[]>(prefix);
+      if (!descriptors) return;
+
+      for (const descriptor of descriptors) {
+        await store.set(getKey(descriptor.id), descriptor);
+      }
+      await store.delete(prefix);
+    });
+    return migrated;
+  }
+
+  return {
+    add(descriptor) {
+      const now = Date.now();
+      return modify(() =>
+        store.set<TaskDescriptor>(getKey(descriptor.id), {
+          ...descriptor,
+          status: "queued",
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    update(id, status) {
+      return modify(async () => {
+        const descriptor = await store.get<TaskDescriptor>(getKey(id));
+        if (!descriptor) return;
+
+        await store.set<TaskDescriptor>(getKey(id), {
+          ...descriptor,
+          status,
+          updatedAt: Date.now(),
+        });
+      });
+    },
+
+    remove(id) {
+      return modify(() => store.delete(getKey(id)));
+    },
+
+    async list() {
+      await migrate();
+      await pending;
+
+      const keys = await listKeys(`${prefix}:`);
+      const descriptors = store.getMany
+        ? await store.getMany<TaskDescriptor>(keys)
+        : await Promise.all(keys.map((key) => store.get<TaskDescriptor>(key)));
+
+      return descriptors
+        .filter((descriptor): descriptor is TaskDescriptor => !!descriptor)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    },
+  };
+}
+
 /**
  * Creates a task function that can be executed or enqueued.
  * @param key - A unique key for the task.
@@ -181,16 +732,38 @@ export function task<Params, Result>(
 
     delete mergedOptions.callId;
 
-    try {
-      const res = await Promise.resolve(
-        fn(params, {
-          callId,
-          debug: mergedOptions?.debug ?? (() => {}),
-        })
-      );
-      return res;
-    } catch (error) {
-      throw error;
+    const debug = mergedOptions?.debug ?? (() => {});
+
+    const {
+      retries,
+      retryable = isRetryableError,
+      ...backoff
+    } = typeof mergedOptions.retry === "number"
+      ? { retries: mergedOptions.retry }
+      : (mergedOptions.retry ?? { retries: 0 });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await withTimeout(
+          async (abortSignal) => fn(params, { callId, debug, abortSignal }),
+          key,
+          mergedOptions.timeout
+        );
+      } catch (error) {
+        if (attempt >= retries || !retryable(error)) throw error;
+
+        const delay = getRetryDelay(attempt + 1, backoff);
+
+        debug(key, ["retry", callId], {
+          attempt: attempt + 1,
+          retries,
+          delay,
+          error,
+        });
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        await mergedOptions.beforeRetry?.();
+      }
     }
   }
 
@@ -6,12 +6,27 @@ import {
   type StreamTextResult,
   type ToolSet,
 } from "ai";
-import { parse, prompt, resultsPrompt, wrapStream } from "../prompts/main";
-import { task, type TaskContext } from "../task";
-import { formatContext, formatContexts } from "../formatters";
-import { defaultContextRender } from "../context";
+import { ZodType } from "zod";
+import zodToJsonSchema from "zod-to-json-schema";
+import { task, type TaskContext, type TaskOptions } from "../task";
+import {
+  formatAction,
+  formatContext,
+  formatContextLog,
+  formatContexts,
+  formatOutputInterface,
+} from "../formatters";
+import { isToolCallError } from "../protocols";
+import { createDefaultContextMemory, getWorkingMemoryLogs } from "../context";
+import {
+  fitPrompt,
+  type FittedPromptSections,
+  type PromptSummarizer,
+} from "../budget";
+import { formatXml } from "../xml";
 import type {
   ActionCall,
+  ActionResult,
   AgentContext,
   AnyAction,
   AnyAgent,
@@ -20,12 +35,15 @@ import type {
   InferContextMemory,
   Log,
   Output,
+  ProtocolPromptParams,
+  ResponseProtocol,
+  TokenBudget,
   WorkingMemory,
 } from "../types";
 import type { Logger } from "../logger";
 
 /**
- * Prepares a stream response by handling the stream result and parsing it.
+ * Prepares a stream response by logging the generated text and tool calls.
  *
  * @param options - Configuration options
  * @param options.contextId - The ID of the context
@@ -33,7 +51,7 @@ import type { Logger } from "../logger";
  * @param options.stream - The stream result to process
  * @param options.logger - The logger instance
  * @param options.task - The task context containing callId and debug function
- * @returns An object containing the parsed response promise and wrapped text stream
+ * @returns An object containing the response text promise, the stream result and token usage
  */
 function prepareStreamResponse({
   stream,
@@ -46,69 +64,342 @@ function prepareStreamResponse({
   step: string;
   stream: StreamTextResult<ToolSet, never>;
   logger: Logger;
-  task: TaskContext;
+  task: Pick<TaskContext, "callId" | "debug">;
 }) {
-  const response = new Promise<ReturnType<typeof parse>>(
-    async (resolve, reject) => {
-      try {
-        const result = await stream.text;
-        const text = "<think>" + result + "</response>";
+  const response = new Promise<string>(async (resolve, reject) => {
+    try {
+      const [text, toolCalls] = await Promise.all([
+        stream.text,
+        stream.toolCalls,
+      ]);
 
-        debug(contextId, [step, callId], text);
+      const content =
+        toolCalls.length > 0
+          ? [text, JSON.stringify(toolCalls, null, 2)].join("\n")
+          : text;
 
-        logger.debug("agent:response", text, {
-          contextId,
-          callId,
-        });
+      debug(contextId, [step, callId], content);
 
-        resolve(parse(text));
-      } catch (error) {
-        reject(error);
-      }
+      logger.debug("agent:response", content, {
+        contextId,
+        callId,
+      });
+
+      resolve(content);
+    } catch (error) {
+      reject(error);
     }
-  );
+  });
+
+  // Failures are surfaced while the protocol reads the stream
+  response.catch(() => {});
 
   return {
     response,
-    stream: wrapStream(stream.textStream, "<think>", "</response>"),
+    stream,
+    // Resolves to undefined when the generation fails or is aborted
+    usage: stream.usage.catch(() => undefined),
   };
 }
 
 /**
- * Task that generates a response from the agent based on the current context and working memory.
+ * Waits for the first part of a stream so request errors, like rate limits,
+ * are thrown inside the task where its retry policy can handle them.
+ *
+ * @param stream - The stream result to wait for
+ * @throws The error emitted by the stream before any content
+ */
+async function waitForStreamStart(stream: StreamTextResult<ToolSet, never>) {
+  const reader = stream.fullStream.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      if (value.type === "error" && !isToolCallError(value.error)) {
+        throw value.error;
+      }
+      if (value.type !== "step-start") return;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/** Items of each prompt section */
+type PromptItems = {
+  contexts: ContextState<AnyContext>;
+  actions: AnyAction;
+  outputs: Output;
+  updates: Log;
+  history: Log;
+};
+
+/**
+ * Formats tool definitions so their tokens are counted in the budget.
+ *
+ * @param tools - The tools sent with the request
+ * @returns The tool definitions as JSON
+ */
+function formatTools(tools: ToolSet) {
+  return Object.entries(tools)
+    .map(([name, { description, parameters }]) =>
+      JSON.stringify({
+        name,
+        description,
+        parameters:
+          parameters instanceof ZodType
+            ? zodToJsonSchema(parameters)
+            : parameters.jsonSchema,
+      })
+    )
+    .join("\n");
+}
+
+/**
+ * Prompt of a step with the actions and outputs kept in it
+ */
+export type StepPrompt = {
+  system: string;
+  actions: AnyAction[];
+  outputs: Output[];
+};
+
+/**
+ * Renders the prompt of a step within the token budget of the model and
+ * reports its token breakdown to the debugger. It is rendered once per step,
+ * the generation retries reuse it.
  *
  * @param options - Configuration options
- * @param options.agent - The agent instance
+ * @param options.step - The step to render the prompt for
  * @param options.contexts - Array of context states
  * @param options.contextId - The ID of the current context
  * @param options.workingMemory - The working memory state
  * @param options.outputs - Available outputs
  * @param options.actions - Available actions
+ * @param options.chain - Logs of the current run, rendered on results steps
+ * @param options.model - The language model the prompt is sent to
+ * @param options.protocol - The response protocol rendering the prompt
+ * @param options.budget - Optional token budget
+ * @param options.logger - The logger instance
+ * @param options.summarize - Optional summarizer of removed prompt items
+ * @param options.task - The callId of the generation and the debug function
+ * @returns The prompt with the actions and outputs kept in it
+ */
+export async function renderPrompt({
+  step,
+  contexts,
+  contextId,
+  workingMemory,
+  outputs,
+  actions,
+  chain = [],
+  model,
+  protocol,
+  budget,
+  logger,
+  summarize,
+  task: { callId, debug },
+}: {
+  step: ProtocolPromptParams["step"];
+  contexts: ContextState<AnyContext>[];
+  contextId: string;
+  workingMemory: WorkingMemory;
+  outputs: Output[];
+  actions: AnyAction[];
+  chain?: Log[];
+  model: LanguageModelV1;
+  protocol: ResponseProtocol;
+  budget?: TokenBudget;
+  logger: Logger;
+  summarize?: PromptSummarizer;
+  task: Pick<TaskContext, "callId" | "debug">;
+}): Promise<StepPrompt> {
+  const mainContext = contexts.find((ctx) => ctx.id === contextId)!;
+
+  const memoryLogs = getWorkingMemoryLogs(
+    {
+      inputs: workingMemory.inputs.filter((i) => i.processed === true),
+      outputs: workingMemory.outputs,
+      calls: workingMemory.calls,
+      results: workingMemory.results.filter((i) => i.processed === true),
+    },
+    false
+  );
+
+  const chainLogs =
+    step === "results"
+      ? chain.filter((i) =>
+          i.ref === "action_result" ? i.processed === true : true
+        )
+      : [];
+
+  // Unprocessed inputs are always kept, only results can be reduced
+  const inputs = workingMemory.inputs.filter((i) => i.processed !== true);
+  const results = workingMemory.results.filter((i) => i.processed !== true);
+
+  const formatContextState = (state: ContextState<AnyContext>) =>
+    formatContexts(contextId, [state], createDefaultContextMemory());
+
+  const formatLog = (log: Log) => [formatContextLog(log)].flat().join("\n");
+
+  const summaryOf = (summary?: string) =>
+    summary ? formatXml({ tag: "summary", content: summary }) : "";
+
+  function getParams(
+    sections: FittedPromptSections<PromptItems>
+  ): ProtocolPromptParams {
+    // Kept items are the newest ones, so logs are split by their position
+    const history = sections.history.items;
+    const removed = memoryLogs.length + chainLogs.length - history.length;
+    const keptLogs = new Set<Log>(memoryLogs.slice(removed));
+
+    const keptContexts = new Set([
+      ...sections.contexts.fixed,
+      ...sections.contexts.items,
+    ]);
+
+    const keptResults = sections.updates.items as ActionResult[];
+
+    return {
+      step,
+      context: [
+        formatContexts(
+          contextId,
+          contexts.filter((ctx) => keptContexts.has(ctx)),
+          {
+            ...workingMemory,
+            // Removed logs are newer than the working memory summary
+            summary:
+              [workingMemory.summary, sections.history.summary]
+                .filter((t) => !!t)
+                .join("\n\n") || undefined,
+            inputs: workingMemory.inputs.filter((i) => keptLogs.has(i)),
+            outputs: workingMemory.outputs.filter((i) => keptLogs.has(i)),
+            calls: workingMemory.calls.filter((i) => keptLogs.has(i)),
+            results: workingMemory.results.filter((i) => keptLogs.has(i)),
+          }
+        ),
+        summaryOf(sections.contexts.summary),
+      ]
+        .filter((t) => !!t)
+        .join("\n"),
+      outputs: sections.outputs.items,
+      actions: sections.actions.items,
+      updates: formatContext({
+        type: mainContext.context.type,
+        key: mainContext.key,
+        content: [
+          summaryOf(sections.updates.summary),
+          // Results are rendered apart from the updates on results steps
+          ...(step === "results"
+            ? inputs
+            : getWorkingMemoryLogs({ inputs, results: keptResults }, false)
+          ).flatMap((i) => formatContextLog(i)),
+        ].filter((t) => !!t),
+      }),
+      ...(step === "results" && {
+        logs: chainLogs.slice(Math.max(removed - memoryLogs.length, 0)),
+        results: keptResults,
+      }),
+    };
+  }
+
+  const { sections, breakdown } = await fitPrompt<PromptItems>({
+    model,
+    budget,
+    logger,
+    summarize,
+    sections: {
+      contexts: {
+        items: contexts.filter((ctx) => ctx !== mainContext),
+        fixed: [mainContext],
+        format: formatContextState,
+        summary: true,
+      },
+      actions: { items: actions, format: formatAction },
+      outputs: { items: outputs, format: formatOutputInterface },
+      updates: {
+        items: results,
+        fixed: inputs,
+        format: formatLog,
+        summary: true,
+      },
+      history: {
+        items: [...memoryLogs, ...chainLogs],
+        format: formatLog,
+        summary: true,
+      },
+    },
+    render: (sections) => {
+      const { tools } = protocol.request({
+        actions: sections.actions.items,
+        outputs: sections.outputs.items,
+      });
+
+      return [protocol.prompt(getParams(sections)), tools && formatTools(tools)]
+        .filter((t) => !!t)
+        .join("\n");
+    },
+  });
+
+  debug(
+    contextId,
+    ["prompt-budget", callId],
+    JSON.stringify(breakdown, null, 2)
+  );
+
+  logger.debug("agent:budget", "Prompt tokens", breakdown);
+
+  return {
+    system: protocol.prompt(getParams(sections)),
+    actions: sections.actions.items,
+    outputs: sections.outputs.items,
+  };
+}
+
+/**
+ * Default retry policy for generation tasks
+ */
+const generateTaskOptions = {
+  retry: { retries: 3, minDelay: 1000 },
+} satisfies TaskOptions;
+
+/**
+ * Task that generates a response from the agent based on the current context and working memory.
+ *
+ * @param options - Configuration options
+ * @param options.agent - The agent instance
+ * @param options.contextId - The ID of the current context
+ * @param options.workingMemory - The working memory state
+ * @param options.prompt - The prompt of the step, rendered by `renderPrompt`
  * @param options.logger - The logger instance
  * @param options.model - The language model to use
+ * @param options.protocol - The response protocol used to prompt and parse the model
+ * @param options.abortSignal - Optional signal to cancel the generation
  * @param taskContext - The task context containing callId and debug function
- * @returns The prepared stream response with parsed result and text stream
+ * @returns The prepared stream response with response text and stream result
  */
 export const runGenerate = task(
   "agent:run:generate",
   async (
     {
-      contexts,
       workingMemory,
-      outputs,
-      actions,
+      prompt,
       logger,
       model,
       contextId,
+      protocol,
+      abortSignal,
     }: {
       agent: AnyAgent;
-      contexts: ContextState<AnyContext>[];
       contextId: string;
       workingMemory: WorkingMemory;
-      outputs: Output[];
-      actions: AnyAction[];
+      prompt: StepPrompt;
       logger: Logger;
       model: LanguageModelV1;
+      protocol: ResponseProtocol;
+      abortSignal?: AbortSignal;
     },
     { callId, debug }: TaskContext
   ) => {
@@ -118,23 +409,7 @@ export const runGenerate = task(
       JSON.stringify(workingMemory, null, 2)
     );
 
-    const mainContext = contexts.find((ctx) => ctx.id === contextId)!;
-
-    const system = prompt({
-      context: formatContexts(contextId, contexts, workingMemory),
-      outputs,
-      actions,
-      updates: formatContext({
-        type: mainContext.context.type,
-        key: mainContext.key,
-        content: defaultContextRender({
-          memory: {
-            inputs: workingMemory.inputs.filter((i) => i.processed !== true),
-            results: workingMemory.results.filter((i) => i.processed !== true),
-          },
-        }),
-      }),
-    });
+    const { system } = prompt;
     debug(contextId, ["prompt", callId], system);
 
     logger.debug("agent:system", system);
@@ -149,12 +424,15 @@ export const runGenerate = task(
           },
         ],
       },
-      {
-        role: "assistant",
-        content: "<think>",
-      },
     ] as CoreMessage[];
 
+    const { prefill, ...request } = protocol.request({
+      actions: prompt.actions,
+      outputs: prompt.outputs,
+    });
+
+    if (prefill) messages.push({ role: "assistant", content: prefill });
+
     if (workingMemory.currentImage) {
       messages[0].content = [
         ...messages[0].content,
@@ -168,8 +446,11 @@ export const runGenerate = task(
     const stream = streamText({
       model,
       messages,
-      stopSequences: ["</response>"],
+      ...request,
       temperature: 0.6,
+      abortSignal,
+      // Retries are handled by the task retry policy
+      maxRetries: 0,
       experimental_transform: smoothStream({
         chunking: "word",
       }),
@@ -178,6 +459,8 @@ export const runGenerate = task(
       },
     });
 
+    await waitForStreamStart(stream);
+
     // Clear the current image after using it
     workingMemory.currentImage = undefined;
 
@@ -188,7 +471,8 @@ export const runGenerate = task(
       stream,
       task: { callId, debug },
     });
-  }
+  },
+  generateTaskOptions
 );
 
 /**
@@ -196,39 +480,36 @@ export const runGenerate = task(
  *
  * @param options - Configuration options
  * @param options.agent - The agent instance
- * @param options.contexts - Array of context states
  * @param options.contextId - The ID of the current context
  * @param options.workingMemory - The working memory state
- * @param options.outputs - Available outputs
- * @param options.actions - Available actions
+ * @param options.prompt - The prompt of the step, rendered by `renderPrompt`
  * @param options.logger - The logger instance
  * @param options.model - The language model to use
- * @param options.chain - Array of logs representing the action chain
+ * @param options.protocol - The response protocol used to prompt and parse the model
+ * @param options.abortSignal - Optional signal to cancel the generation
  * @param taskContext - The task context containing callId and debug function
- * @returns The prepared stream response with parsed result and text stream
+ * @returns The prepared stream response with response text and stream result
  */
 export const runGenerateResults = task(
   "agent:run:generate-results",
   async (
     {
-      contexts,
       workingMemory,
-      outputs,
-      actions,
+      prompt,
       logger,
       model,
       contextId,
-      chain,
+      protocol,
+      abortSignal,
     }: {
       agent: AnyAgent;
-      contexts: ContextState<AnyContext>[];
       contextId: string;
       workingMemory: WorkingMemory;
-      outputs: Output[];
-      actions: AnyAction[];
+      prompt: StepPrompt;
       logger: Logger;
       model: LanguageModelV1;
-      chain: Log[];
+      protocol: ResponseProtocol;
+      abortSignal?: AbortSignal;
     },
     { callId, debug }: TaskContext
   ) => {
@@ -238,31 +519,7 @@ export const runGenerateResults = task(
       JSON.stringify(workingMemory, null, 2)
     );
 
-    const mainContext = contexts.find((ctx) => ctx.id === contextId)!;
-
-    const system = resultsPrompt({
-      context: formatContexts(contextId, contexts, workingMemory),
-      outputs,
-      actions,
-      updates: formatContext({
-        type: mainContext.context.type,
-        key: mainContext.key,
-        content: defaultContextRender({
-          memory: {
-            inputs: workingMemory.inputs.filter((i) => i.processed !== true),
-          },
-        }),
-      }),
-      logs: chain.filter((i) =>
-        i.ref === "action_result" ? i.processed === true : true
-      ),
-      results: workingMemory.results.filter((i) => i.processed !== true),
-    });
-
-    console.log("marking as processed");
-    workingMemory.results.forEach((i) => {
-      i.processed = true;
-    });
+    const { system } = prompt;
 
     debug(contextId, ["prompt-results", callId], system);
 
@@ -281,12 +538,15 @@ export const runGenerateResults = task(
           },
         ],
       },
-      {
-        role: "assistant",
-        content: "<think>",
-      },
     ] as CoreMessage[];
 
+    const { prefill, ...request } = protocol.request({
+      actions: prompt.actions,
+      outputs: prompt.outputs,
+    });
+
+    if (prefill) messages.push({ role: "assistant", content: prefill });
+
     if (workingMemory.currentImage) {
       messages[0].content = [
         ...messages[0].content,
@@ -300,8 +560,11 @@ export const runGenerateResults = task(
     const stream = streamText({
       model,
       messages: messages,
-      stopSequences: ["</response>"],
+      ...request,
       temperature: 0.6,
+      abortSignal,
+      // Retries are handled by the task retry policy
+      maxRetries: 0,
       experimental_transform: smoothStream({
         chunking: "word",
       }),
@@ -310,6 +573,12 @@ export const runGenerateResults = task(
       },
     });
 
+    await waitForStreamStart(stream);
+
+    workingMemory.results.forEach((i) => {
+      i.processed = true;
+    });
+
     // Clear the current image after using it
     workingMemory.currentImage = undefined;
 
@@ -320,7 +589,8 @@ export const runGenerateResults = task(
       stream,
       task: { callId, debug },
     });
-  }
+  },
+  generateTaskOptions
 );
 
 /**
@@ -337,29 +607,44 @@ export const runGenerateResults = task(
  */
 export const runAction = task(
   "agent:run:action",
-  async <TContext extends AnyContext>({
-    ctx,
-    action,
-    call,
-    agent,
-    logger,
-  }: {
-    ctx: AgentContext<InferContextMemory<TContext>, TContext> & {
-      actionMemory: unknown;
-      agentMemory?: unknown;
-    };
-    action: AnyAction;
-    call: ActionCall;
-    agent: AnyAgent;
-    logger: Logger;
-  }) => {
+  async <TContext extends AnyContext>(
+    {
+      ctx,
+      action,
+      call,
+      agent,
+      logger,
+    }: {
+      ctx: AgentContext<InferContextMemory<TContext>, TContext> & {
+        actionMemory: unknown;
+        agentMemory?: unknown;
+        abortSignal?: AbortSignal;
+        emit: AnyAgent["emit"];
+      };
+      action: AnyAction;
+      call: ActionCall;
+      agent: AnyAgent;
+      logger: Logger;
+    },
+    { abortSignal }: TaskContext
+  ) => {
     try {
+      // Aborted when the run is cancelled or the attempt times out
+      const signal = ctx.abortSignal
+        ? AbortSignal.any([ctx.abortSignal, abortSignal])
+        : abortSignal;
+
+      signal.throwIfAborted();
       logger.info(
         "agent:action_call:" + call.id,
         call.name,
         JSON.stringify(call.data)
       );
-      const result = await action.handler(call, ctx, agent);
+      const result = await action.handler(
+        call,
+        { ...ctx, abortSignal: signal },
+        agent
+      );
       logger.debug("agent:action_result:" + call.id, call.name, result);
       return result;
     } catch (error) {
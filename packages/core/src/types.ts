@@ -1,9 +1,18 @@
-import { type LanguageModelV1 } from "ai";
+import {
+  type LanguageModelV1,
+  type StreamTextResult,
+  type ToolChoice,
+  type ToolSet,
+} from "ai";
 import { z } from "zod";
 import type { Container } from "./container";
 import type { ServiceProvider } from "./serviceProvider";
 import type { BaseMemory } from "./memory";
-import type { TaskRunner } from "./task";
+import type { RetryOptions, TaskRunner } from "./task";
+import type { EventBus } from "./events";
+import type { StackElement } from "./prompts/main";
+import type { Logger } from "./logger";
+import type { ContextLock } from "./lock";
 
 /**
  * Represents a memory configuration for storing data
@@ -67,15 +76,148 @@ export interface MemoryStore {
    * Removes all data from memory
    */
   clear(): Promise<void>;
+
+  /**
+   * Lists the stored keys, required to migrate the store
+   * @param prefix - Only lists the keys starting with this prefix
+   * @returns The matching keys
+   */
+  keys?(prefix?: string): Promise<string[]>;
+
+  /**
+   * Retrieves several values at once
+   * @param keys - Keys to lookup
+   * @returns The values in the order of the keys, null for missing ones
+   */
+  getMany?<T>(keys: string[]): Promise<(T | null)[]>;
+
+  /**
+   * Stores several values at once
+   * @param entries - Key value pairs to store
+   */
+  setMany?<T>(entries: [string, T][]): Promise<void>;
+
+  /**
+   * Removes several values at once
+   * @param keys - Keys to remove
+   */
+  deleteMany?(keys: string[]): Promise<void>;
+
+  /**
+   * Atomically replaces a value with the result of a function of the
+   * current value. Updates of the same key never interleave, `fn` may
+   * be called again when another process changed the value meanwhile.
+   * @template T - Type of data to update
+   * @param key - Key to update
+   * @param fn - Computes the new value from the current one, null if missing.
+   * Returning null removes the key.
+   * @returns The new value
+   */
+  update?<T>(key: string, fn: (value: T | null) => T | Promise<T>): Promise<T>;
 }
 
 /**
- * Interface for storing and retrieving vector data
+ * Value of a vector document metadata field
+ */
+export type VectorMetadataValue = string | number | boolean;
+
+/**
+ * Document stored in a vector store
+ */
+export type VectorDocument = {
+  /** Unique identifier of the document within its namespace */
+  id: string;
+  /** Text embedded and returned by queries */
+  text: string;
+  /** Fields that queries can filter on */
+  metadata?: Record<string, VectorMetadataValue>;
+};
+
+/**
+ * Metadata filter, every field must match. An array matches any of its values.
+ */
+export type VectorFilter = Record<
+  string,
+  VectorMetadataValue | VectorMetadataValue[]
+>;
+
+/**
+ * Options of a vector store query
+ */
+export type VectorQueryOptions = {
+  /** Maximum number of hits, defaults to 5 */
+  topK?: number;
+  /** Only matches documents whose metadata matches */
+  filter?: VectorFilter;
+  /** Minimum similarity of the hits between 0 and 1, defaults to 0 */
+  minScore?: number;
+};
+
+/**
+ * Document matching a query with its similarity to the query
+ */
+export type VectorQueryResult = VectorDocument & {
+  /** Similarity between 0 and 1, higher is closer */
+  score: number;
+};
+
+/**
+ * Interface for storing and retrieving vector data.
+ * Documents are grouped in namespaces, usually one per context.
  */
 export interface VectorStore {
   /** Optional connection string for the vector store */
   connection?: string;
 
+  /**
+   * Adds documents to a namespace, replacing those with the same id
+   * @param namespace - Namespace of the documents
+   * @param documents - Documents to add or update
+   */
+  upsert(namespace: string, documents: VectorDocument[]): Promise<void>;
+
+  /**
+   * Searches a namespace for the documents most similar to a query
+   * @param namespace - Namespace to search within
+   * @param query - Query text to search for
+   * @param options - Query options
+   * @returns Matching documents, most similar first
+   */
+  query(
+    namespace: string,
+    query: string,
+    options?: VectorQueryOptions
+  ): Promise<VectorQueryResult[]>;
+
+  /**
+   * Removes documents from a namespace
+   * @param namespace - Namespace of the documents
+   * @param ids - Ids of the documents to remove
+   */
+  delete(namespace: string, ids: string[]): Promise<void>;
+
+  /**
+   * Counts the documents of a namespace
+   * @param namespace - Namespace to count the documents of
+   */
+  count(namespace: string): Promise<number>;
+
+  /**
+   * Removes all the documents of a namespace
+   * @param namespace - Namespace to remove
+   */
+  deleteNamespace(namespace: string): Promise<void>;
+}
+
+/**
+ * Previous vector store interface, wrap implementations with
+ * `toVectorStore` to use them as a {@link VectorStore}
+ * @deprecated Implement {@link VectorStore} instead
+ */
+export interface LegacyVectorStore {
+  /** Optional connection string for the vector store */
+  connection?: string;
+
   /**
    * Adds or updates data in the vector store
    * @param contextId - Unique identifier for the context
@@ -119,6 +261,8 @@ export interface WorkingMemory {
   /** List of action results */
   results: ActionResult[];
   // chains: Chain[];
+  /** Rolling summary of logs folded out of the working memory */
+  summary?: string;
   episodicMemory?: EpisodicMemory;
   /** Current image URL for multimodal context */
   currentImage?: URL;
@@ -182,6 +326,7 @@ export type Action<
   enabled?: (
     ctx: Context & {
       actionMemory: InferMemoryData<TMemory>;
+      /** @deprecated Use `contexts.agent.memory` */
       agentMemory?: InferAgentMemory<TAgent>;
     }
   ) => boolean;
@@ -190,11 +335,32 @@ export type Action<
     call: ActionCall<z.infer<Schema>>,
     ctx: Context & {
       actionMemory: InferMemoryData<TMemory>;
+      /** @deprecated Use `contexts.agent.memory` */
       agentMemory?: InferAgentMemory<TAgent>;
+      /** Aborted when the run is cancelled or the call attempt times out */
+      abortSignal?: AbortSignal;
+      emit: EventBus["emit"];
     },
     agent: TAgent
   ) => Promise<Result> | Result;
   format?: (result: ActionResult<Result>) => string | string[];
+  /**
+   * Retry policy for failed calls. By default only idempotent actions are
+   * retried, twice on transient errors, and timed out calls of other actions
+   * are never retried
+   */
+  retry?: number | RetryOptions;
+  /** Timeout in milliseconds for each call attempt, aborting its `abortSignal` */
+  timeout?: number;
+  /** Task runner queue the action runs in, defaults to "actions" */
+  queue?: string;
+  /** Task runner rate limit key, defaults to the action name */
+  rateLimitKey?: string;
+  /**
+   * Whether the action is safe to run again after an interruption. In durable
+   * mode interrupted calls of non-idempotent actions are failed on restart
+   */
+  idempotent?: boolean;
   /** Optional evaluator for this specific action */
   evaluator?: Evaluator<Result, Context, TAgent>;
 };
@@ -223,7 +389,7 @@ export type Output<
   enabled?: (ctx: AgentContext<any, any>) => boolean;
   handler: (
     params: z.infer<Schema>,
-    ctx: Context,
+    ctx: Context & { emit: EventBus["emit"] },
     agent: TAgent
   ) => Promise<Response> | Response;
   format?: (res: Response) => string | string[];
@@ -299,6 +465,23 @@ export type ActionCall<Data = any> = {
   timestamp: number;
 };
 
+/** Kinds of action call failures */
+export type ActionErrorType =
+  | "action_not_found"
+  | "parse_error"
+  | "validation_error"
+  | "handler_error"
+  | "timeout"
+  | "interrupted"
+  | "budget";
+
+/** Describes why an action call failed, shown to the model on the next step */
+export type ActionError = {
+  type: ActionErrorType;
+  message: string;
+  details?: unknown;
+};
+
 /** Represents the result of an action execution */
 export type ActionResult<Data = any> = {
   ref: "action_result";
@@ -306,6 +489,8 @@ export type ActionResult<Data = any> = {
   callId: string;
   name: string;
   data: Data;
+  /** Set when the call failed, in which case data is undefined */
+  error?: ActionError;
   timestamp: number;
   processed?: boolean;
   formatted?: string | string[];
@@ -319,7 +504,39 @@ export type Thought = {
   timestamp: number;
 };
 
-export type Log = InputRef | OutputRef | Thought | ActionCall | ActionResult;
+/** Represents a run that was cancelled before it completed */
+export type Cancellation = {
+  ref: "cancellation";
+  id: string;
+  reason?: string;
+  timestamp: number;
+};
+
+/** Reason a run ended early because one of its limits was reached */
+export type RunLimitReason = "max_steps" | "timeout" | "budget";
+
+/** Records that a run ended because one of its limits was reached */
+export type RunLimitRef = {
+  ref: "run_limit";
+  id: string;
+  reason: RunLimitReason;
+  /** Name of the limit that was reached */
+  limit: keyof RunLimits;
+  /** Configured value of the limit */
+  max: number;
+  /** Value reached when the run ended */
+  value: number;
+  timestamp: number;
+};
+
+export type Log =
+  | InputRef
+  | OutputRef
+  | Thought
+  | ActionCall
+  | ActionResult
+  | Cancellation
+  | RunLimitRef;
 
 /** Properties required for Chain-of-Thought execution */
 export type COTProps = {
@@ -390,6 +607,8 @@ export interface AgentContext<
   options: InferContextOptions<TContext>;
   memory: Memory;
   workingMemory: WorkingMemory;
+  /** States of the contexts used by the context, by name */
+  contexts: Record<string, ContextState<AnyContext>>;
 }
 
 export type AnyAgent = Agent<any, any>;
@@ -397,6 +616,65 @@ export type AnyAgent = Agent<any, any>;
 export interface Handlers {
   onLogStream: (log: Log, done: boolean) => void;
   onThinking: (thought: Thought) => void;
+  onError: (error: ActionError, result: ActionResult) => void;
+}
+
+/** Data available to a response protocol when rendering a prompt */
+export type ProtocolPromptParams = {
+  /** "response" for the first step, "results" for steps reviewing action results */
+  step: "response" | "results";
+  context: string | string[];
+  updates: string | string[];
+  outputs: Output[];
+  actions: AnyAction[];
+  /** Chain of the current run, set on results steps */
+  logs?: Log[];
+  /** Unprocessed action results, set on results steps */
+  results?: ActionResult[];
+};
+
+/** Request settings a response protocol adds to a generation */
+export type ProtocolRequest = {
+  tools?: ToolSet;
+  toolChoice?: ToolChoice<ToolSet>;
+  stopSequences?: string[];
+  /** Text the assistant message is prefilled with */
+  prefill?: string;
+};
+
+/**
+ * Defines how the agent asks the model for reasoning, action calls and
+ * outputs, and how they are read back from the model stream.
+ */
+export interface ResponseProtocol {
+  name: string;
+
+  /**
+   * Renders the prompt for a step
+   * @param params - Prompt data of the step
+   */
+  prompt(params: ProtocolPromptParams): string;
+
+  /**
+   * Builds the request settings for a step
+   * @param params - Actions and outputs available to the model
+   */
+  request(params: { actions: AnyAction[]; outputs: Output[] }): ProtocolRequest;
+
+  /**
+   * Reads the model stream, calling the handler for each element as it is
+   * streamed and once more with `done` set when it is complete
+   * @param params.result - The model stream
+   * @param params.actions - Actions available to the model
+   * @param params.index - Index of the first element
+   * @param params.handler - Called with each parsed element
+   */
+  handleStream(params: {
+    result: StreamTextResult<ToolSet, never>;
+    actions: AnyAction[];
+    index: number;
+    handler: (el: StackElement) => void;
+  }): Promise<void>;
 }
 
 /**
@@ -418,6 +696,12 @@ export interface Agent<
    */
   context?: TContext;
 
+  /**
+   * Context definitions by type: the agent context, the contexts of the
+   * config and of the extensions, and the contexts run by the agent.
+   */
+  contexts: Record<string, AnyContext>;
+
   /**
    * Debugger function for the agent.
    */
@@ -483,10 +767,20 @@ export interface Agent<
   >[];
 
   /**
-   * Emits an event with the provided arguments.
-   * @param args - Arguments to pass to the event handler.
+   * Subscribes a handler to a built-in or custom event.
+   * @returns A function removing the handler.
+   */
+  on: EventBus["on"];
+
+  /**
+   * Removes an event handler.
+   */
+  off: EventBus["off"];
+
+  /**
+   * Emits an event, validating custom event payloads against the schemas in `events`.
    */
-  emit: (...args: any[]) => void;
+  emit: EventBus["emit"];
 
   /**
    * Runs the agent with the provided options.
@@ -501,6 +795,7 @@ export interface Agent<
       Omit<Output<any, AgentContext<Memory>, any, any>, "type">
     >;
     handlers?: Partial<Handlers>;
+    abortSignal?: AbortSignal;
   }) => Promise<Log[]>;
 
   /**
@@ -517,6 +812,7 @@ export interface Agent<
       Omit<Output<any, AgentContext<Memory>, any, any>, "type">
     >;
     handlers?: Partial<Handlers>;
+    abortSignal?: AbortSignal;
   }) => Promise<Log[]>;
 
   /**
@@ -534,16 +830,42 @@ export interface Agent<
   start(args?: z.infer<TContext["schema"]>): Promise<this>;
 
   /**
-   * Stops the agent.
+   * Stops the agent, unsubscribing inputs, draining pending tasks and flushing context state.
+   * @param options - Options for stopping the agent.
+   * @param options.timeout - Deadline in milliseconds for running contexts and tasks to settle.
    * @returns A promise that resolves when the agent is stopped.
    */
-  stop(): Promise<void>;
+  stop(options?: { timeout?: number }): Promise<void>;
 
   /**
    * Retrieves the contexts managed by the agent.
+   * @param context - Only retrieves the contexts of this definition.
    * @returns A promise that resolves to an array of context objects.
    */
-  getContexts(): Promise<{ id: string; type: string; args?: any }[]>;
+  getContexts<TContext extends AnyContext = AnyContext>(
+    context?: TContext
+  ): Promise<ContextInfo<TContext>[]>;
+
+  /**
+   * Loads the state of a context managed by the agent, its type must be registered in `contexts`.
+   * Only the context memory is loaded, its working memory is loaded by `getWorkingMemory` and its used contexts by the runs.
+   * @param id - The ID of the context.
+   * @returns A promise that resolves to the context state, or null if the agent doesn't manage the context.
+   */
+  getContextById<TContext extends AnyContext = AnyContext>(
+    id: string
+  ): Promise<ContextState<TContext> | null>;
+
+  /**
+   * Ends a context, removing its memory and working memory.
+   * @param contextId - The context to end.
+   * @param options.expiry - Whether the context is deleted or archived, defaults to the context expiry.
+   * @returns A promise that resolves when the context is removed.
+   */
+  deleteContext(
+    contextId: string,
+    options?: { expiry?: ContextExpiry }
+  ): Promise<void>;
 
   /**
    * Retrieves the ID for a given context and arguments.
@@ -575,6 +897,134 @@ export interface Agent<
 
 export type Debugger = (contextId: string, keys: string[], data: any) => void;
 
+/** Handler called with the payload of an emitted event */
+export type EventHandler<Data = any> = (data: Data) => void | Promise<void>;
+
+/** Reason a run ended */
+export type RunEndReason =
+  | "completed"
+  | "cancelled"
+  | "stopped"
+  | RunLimitReason;
+
+/**
+ * Payloads of the events emitted by the agent.
+ * Custom events registered in `events` can be typed through module augmentation.
+ */
+export interface AgentEvents {
+  "context:created": { contextId: string; type: string; args?: any };
+  "context:destroyed": {
+    contextId: string;
+    type: string;
+    reason: "deleted" | "expired";
+    expiry: ContextExpiry;
+  };
+  "run:start": { contextId: string; type: string };
+  "run:step": { contextId: string; step: number };
+  "run:end": { contextId: string; chain: Log[]; reason: RunEndReason };
+  "action:call": { contextId: string; call: ActionCall };
+  "action:result": { contextId: string; result: ActionResult };
+  output: { contextId: string; output: OutputRef };
+  error: { contextId?: string; error: unknown };
+}
+
+/**
+ * Limits applied to a single agent run
+ */
+export type RunLimits = {
+  /** Maximum number of model steps per run */
+  maxSteps?: number;
+  /** Maximum number of action calls per run */
+  maxActionCalls?: number;
+  /** Maximum wall-clock time of a run in milliseconds */
+  timeout?: number;
+  /** Maximum number of output tokens generated per run */
+  maxOutputTokens?: number;
+  /** Number of processed items of each log type kept in working memory */
+  maxMemoryItems?: number;
+  /** Number of unprocessed items of each log type kept in working memory */
+  maxUnprocessedItems?: number;
+};
+
+/** Data available to a working memory strategy */
+export type WorkingMemoryStrategyParams = {
+  agent: AnyAgent;
+  contextId: string;
+  workingMemory: WorkingMemory;
+  /** Number of processed items of each log type kept in working memory */
+  maxMemoryItems: number;
+  /** Number of unprocessed items of each log type kept in working memory */
+  maxUnprocessedItems: number;
+  logger: Logger;
+  /** Aborted when the run is cancelled */
+  abortSignal?: AbortSignal;
+};
+
+/**
+ * Keeps the working memory of a context bounded, called after each step
+ * of a run before the working memory is saved
+ */
+export type WorkingMemoryStrategy = (
+  params: WorkingMemoryStrategyParams
+) => Promise<void> | void;
+
+/** Sections of a generation prompt, in the order of their default priority */
+export type PromptSection =
+  | "instructions"
+  | "outputs"
+  | "actions"
+  | "updates"
+  | "contexts"
+  | "history";
+
+/** Sections that can be reduced when a prompt overflows the budget */
+export type BudgetedPromptSection = Exclude<PromptSection, "instructions">;
+
+/**
+ * How a section is reduced when the prompt overflows:
+ * - "truncate" removes its oldest items until the prompt fits
+ * - "summarize" replaces its oldest items with a summary written by the model
+ * - "drop" removes the whole section
+ */
+export type BudgetStrategy = "truncate" | "summarize" | "drop";
+
+export type PromptSectionBudget = {
+  /** Sections with a lower priority are reduced first */
+  priority?: number;
+  strategy?: BudgetStrategy;
+};
+
+/**
+ * Token budget of the generation prompts
+ */
+export type TokenBudget = {
+  /** Context window of the model, looked up from the model id by default */
+  contextWindow?: number;
+  /** Tokens kept free for the model response, defaults to 4096 */
+  reservedTokens?: number;
+  /** Maximum length of a section summary in tokens, defaults to 512 */
+  summaryTokens?: number;
+  /** Model used to summarize sections, defaults to the generation model */
+  summaryModel?: LanguageModelV1;
+  /** Counts the tokens of a text, defaults to an estimate of 4 characters per token */
+  countTokens?: (text: string) => number;
+  sections?: Partial<Record<BudgetedPromptSection, PromptSectionBudget>>;
+};
+
+/** Final token usage of a prompt, reported to the debugger */
+export type PromptTokenBreakdown = {
+  model: string;
+  contextWindow: number;
+  /** Tokens available for the prompt */
+  available: number;
+  total: number;
+  sections: Record<PromptSection, number>;
+  /** Sections reduced to fit the prompt, with the number of items removed */
+  reduced: Partial<
+    Record<BudgetedPromptSection, { strategy: BudgetStrategy; removed: number }>
+  >;
+};
+
 export type Config<
   TMemory = any,
   TContext extends AnyContext = AnyContext,
@@ -584,6 +1034,30 @@ export type Config<
   logger?: LogLevel;
   services?: ServiceProvider[];
   extensions?: Extension<TContext>[];
+  /** Default run limits, can be overridden per context */
+  limits?: RunLimits;
+  /**
+   * Persist queued and running action calls in the memory store so calls
+   * interrupted by a crash are resumed or failed on the next start
+   */
+  durable?: boolean;
+  /** Response protocol used by contexts that do not set one, defaults to XML */
+  protocol?: ResponseProtocol;
+  /** Token budget of the generation prompts, can be overridden per context */
+  budget?: TokenBudget;
+  /** Working memory strategy of contexts that do not set one, defaults to trimming */
+  memoryStrategy?: WorkingMemoryStrategy;
+  /** Enables the episodic memory, which is disabled by default */
+  episodicMemory?: EpisodicMemoryConfig;
+  /** Interval in milliseconds between checks for expired contexts, defaults to a minute */
+  expiryInterval?: number;
+  /**
+   * Lock making sure a context is run by one worker at a time, defaults to
+   * an in-memory lock. Agents sharing a memory store should share a lock.
+   */
+  lock?: ContextLock;
+  /** Lifetime in milliseconds of the context leases, renewed while running, defaults to 30 seconds */
+  lockTtl?: number;
 };
 
 /** Configuration type for inputs without type field */
@@ -729,17 +1203,144 @@ export interface Context<
 
   /** Optional function to create new memory for this context */
   create?: (state: Omit<ContextState<Context<any, Args>>, "memory">) => Memory;
-  /** Optional function to load existing memory */
-  load?: (state: Omit<ContextState<this>, "memory">) => Promise<Memory>;
-  /** Optional function to save memory state */
-  save?: (state: ContextState<this>) => Promise<void>;
+  /**
+   * Optional function to load existing memory, used instead of the memory
+   * store. Returning nothing creates new memory.
+   */
+  load?: (
+    state: Omit<ContextState<this>, "memory">
+  ) => Promise<Memory | null | undefined> | Memory | null | undefined;
+  /** Optional function to save memory state, used instead of the memory store */
+  save?: (state: ContextState<this>) => Promise<void> | void;
 
   /** Optional function to render memory state as string(s) */
   render?: (state: ContextState<this>) => string | string[];
 
-  use?: [];
+  /** Optional run limits, overriding the agent limits */
+  limits?: RunLimits;
+
+  /** Optional response protocol, overriding the agent protocol */
+  protocol?: ResponseProtocol;
+
+  /** Optional token budget, merged over the agent budget */
+  budget?: TokenBudget;
+
+  /** Optional working memory strategy, overriding the agent strategy */
+  memoryStrategy?: WorkingMemoryStrategy;
+
+  /** Called at the start of each run, once the context state is loaded */
+  onRun?: (
+    ctx: AgentContext<Memory, Context<Memory, Args, Ctx, Exports>>,
+    agent: AnyAgent
+  ) => Promise<void> | void;
+
+  /** Called after each step of a run, before the context state is saved */
+  onStep?: (
+    ctx: AgentContext<Memory, Context<Memory, Args, Ctx, Exports>> & {
+      step: number;
+    },
+    agent: AnyAgent
+  ) => Promise<void> | void;
+
+  /** Called when a step of a run fails, the run ends after it */
+  onError?: (
+    error: unknown,
+    ctx: AgentContext<Memory, Context<Memory, Args, Ctx, Exports>>,
+    agent: AnyAgent
+  ) => Promise<void> | void;
+
+  /** Called before the context is deleted, archived or expired */
+  onDestroy?: (
+    state: ContextState<this>,
+    agent: AnyAgent
+  ) => Promise<void> | void;
+
+  /** Time in milliseconds after its creation the context expires */
+  ttl?: number;
+
+  /** Time in milliseconds without runs after which the context expires */
+  maxIdle?: number;
+
+  /**
+   * What happens to the context when it expires, defaults to "delete".
+   * Archived contexts keep their memory and working memory under
+   * `archive:<id>` in the memory store, the episodes of both are deleted.
+   */
+  expiry?: ContextExpiry;
+
+  /**
+   * Actions available in the runs of this context, in addition to the agent
+   * actions. They replace agent actions with the same name.
+   */
+  actions?: Action<
+    any,
+    any,
+    AgentContext<Memory, Context<Memory, Args, Ctx, Exports>>
+  >[];
+
+  /**
+   * Outputs available in the runs of this context, in addition to the agent
+   * outputs. They replace agent outputs of the same type.
+   */
+  outputs?: Record<
+    string,
+    OutputConfig<any, AgentContext<Memory, Context<Memory, Args, Ctx, Exports>>>
+  >;
+
+  /**
+   * Inputs sent to this context, in addition to the agent inputs. They
+   * replace agent inputs of the same type.
+   */
+  inputs?: Record<
+    string,
+    InputConfig<any, AgentContext<Memory, Context<Memory, Args, Ctx, Exports>>>
+  >;
+
+  /**
+   * Contexts this context depends on. They are loaded, rendered and saved
+   * with it, and their states are passed to handlers by name. A run holds the
+   * leases of its used contexts, so runs sharing one, including the agent
+   * context, run one at a time.
+   */
+  use?:
+    | ContextRef[]
+    | ((state: ContextState<this>) => ContextRef[] | Promise<ContextRef[]>);
 }
 
+/** Context managed by an agent */
+export type ContextInfo<TContext extends AnyContext = AnyContext> = {
+  id: string;
+  type: string;
+  args: z.infer<TContext["schema"]>;
+  createdAt?: number;
+  /** End of the last run, or when the last run was requested */
+  lastActiveAt?: number;
+};
+
+/** How an ended context is removed */
+export type ContextExpiry = "delete" | "archive";
+
+/** Memory of an archived context */
+export type ArchivedContext = {
+  id: string;
+  type: string;
+  args?: any;
+  memory: unknown;
+  workingMemory: WorkingMemory | null;
+  archivedAt: number;
+};
+
+/**
+ * Reference to a context used by another context
+ * @template TContext - The referenced context type
+ */
+export type ContextRef<TContext extends AnyContext = AnyContext> = {
+  context: TContext;
+  args: z.infer<TContext["schema"]>;
+  /** Name of the context state in handlers, defaults to the context type */
+  name?: string;
+};
+
 export type ContextState<TContext extends AnyContext = AnyContext> = {
   id: string;
   key: string;
@@ -775,6 +1376,8 @@ export type Extension<
 
 export interface Episode {
   id: string;
+  /** Context the episode happened in */
+  contextId?: string;
   timestamp: number;
   observation: string; // Context and setup
   result: string; // Outcomes of actions
@@ -786,7 +1389,42 @@ export interface Episode {
   };
 }
 
+/** Episode recalled for a query, with its relevance between 0 and 1 */
+export type ScoredEpisode = Episode & { score: number };
+
 export interface EpisodicMemory {
-  episodes: Episode[];
+  /** Episodes relevant to the current inputs, most relevant first */
+  episodes: ScoredEpisode[];
   index?: number; // For vector store indexing
 }
+
+/**
+ * Turns texts into embedding vectors
+ */
+export interface Embedder {
+  /**
+   * Embeds texts
+   * @param texts - Texts to embed
+   * @returns One vector per text, in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Configuration of the episodic memory, which records each completed run
+ * as an episode and recalls the most relevant ones into the prompt
+ */
+export type EpisodicMemoryConfig = {
+  /** Model summarizing runs into episodes, defaults to the vector model of the memory or the agent model */
+  model?: LanguageModelV1;
+  /**
+   * Vector store embedding and searching the episodes, defaults to the
+   * vector store of the agent memory. Episodes are kept in the `<contextId>:episodes`
+   * namespace.
+   */
+  vector?: VectorStore;
+  /** Number of episodes rendered in the prompt, defaults to 3 */
+  topK?: number;
+  /** Minimum score of a recalled episode, defaults to 0 */
+  minScore?: number;
+};
@@ -0,0 +1,320 @@
+import { describe, it, expect } from "vitest";
+import {
+  createXmlTokenizer,
+  decodeEntities,
+  xmlStreamParser,
+  type XMLToken,
+  type XmlTokenizerOptions,
+} from "./xml";
+import { handleStream, type StackElement } from "./prompts/main";
+
+const tags = new Set([
+  "think",
+  "response",
+  "output",
+  "action_call",
+  "reasoning",
+  "finalize",
+]);
+
+const rawTags = new Set(["action_call"]);
+
+/**
+ * Merges adjacent text tokens, their boundaries depend on chunking.
+ */
+function normalize(tokens: XMLToken[]) {
+  const result: XMLToken[] = [];
+  for (const token of tokens) {
+    const last = result.at(-1);
+    if (token.type === "text" && last?.type === "text") {
+      result[result.length - 1] = {
+        type: "text",
+        content: last.content + token.content,
+      };
+    } else {
+      result.push(token);
+    }
+  }
+  return result;
+}
+
+function tokenize(
+  chunks: string[],
+  options: XmlTokenizerOptions = { rawTags }
+): XMLToken[] {
+  const tokenizer = createXmlTokenizer(tags, options);
+  const tokens = chunks.flatMap((chunk) => tokenizer.write(chunk));
+  return normalize([...tokens, ...tokenizer.end()]);
+}
+
+/**
+ * Small deterministic PRNG so fuzz failures are reproducible.
+ */
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+}
+
+function splitRandomly(text: string, random: () => number) {
+  const chunks: string[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    const size = 1 + Math.floor(random() * 8);
+    chunks.push(text.slice(pos, pos + size));
+    pos += size;
+  }
+  return chunks;
+}
+
+describe("xml tokenizer", () => {
+  it("should emit self-closing tags", () => {
+    expect(tokenize(["<finalize/>", "<finalize />"])).toEqual([
+      { type: "self-closing", name: "finalize", attributes: {} },
+      { type: "self-closing", name: "finalize", attributes: {} },
+    ]);
+  });
+
+  it("should preserve whitespace in text", () => {
+    expect(tokenize(["<output>\n  two  spaces \n</output>"])).toEqual([
+      { type: "start", name: "output", attributes: {} },
+      { type: "text", content: "\n  two  spaces \n" },
+      { type: "end", name: "output" },
+    ]);
+  });
+
+  it("should decode entities in text and attributes", () => {
+    expect(
+      tokenize([`<output type="a&amp;b">&lt;b&gt; &#65;&#x42; &nope;</output>`])
+    ).toEqual([
+      { type: "start", name: "output", attributes: { type: "a&b" } },
+      { type: "text", content: "<b> AB &nope;" },
+      { type: "end", name: "output" },
+    ]);
+
+    expect(decodeEntities("&#x110000; & &amp")).toBe("&#x110000; & &amp");
+  });
+
+  it("should emit CDATA sections as is", () => {
+    expect(
+      tokenize(["<output><![CDATA[<output>&amp;</output>]]></output>"])
+    ).toEqual([
+      { type: "start", name: "output", attributes: {} },
+      { type: "text", content: "<output>&amp;</output>" },
+      { type: "end", name: "output" },
+    ]);
+  });
+
+  it("should parse single quoted attributes containing >", () => {
+    expect(
+      tokenize([`<action_call name='a>b' id="1">{}</action_call>`])
+    ).toEqual([
+      {
+        type: "start",
+        name: "action_call",
+        attributes: { name: "a>b", id: "1" },
+      },
+      { type: "text", content: "{}" },
+      { type: "end", name: "action_call" },
+    ]);
+  });
+
+  it("should keep comparison operators and unknown tags as text", () => {
+    expect(
+      tokenize(["<reasoning>if a<b and b> c then <b>bold</b></reasoning>"])
+    ).toEqual([
+      { type: "start", name: "reasoning", attributes: {} },
+      { type: "text", content: "if a<b and b> c then <b>bold</b>" },
+      { type: "end", name: "reasoning" },
+    ]);
+  });
+
+  it("should keep markup inside raw tags as text", () => {
+    const json = `{"html":"<output type=\\"x\\">hi</output>","cmp":"1 < 2"}`;
+    expect(
+      tokenize([`<action_call name="send">${json}</action_call>`])
+    ).toEqual([
+      { type: "start", name: "action_call", attributes: { name: "send" } },
+      { type: "text", content: json },
+      { type: "end", name: "action_call" },
+    ]);
+  });
+
+  it("should recover tags missing their closing bracket", () => {
+    expect(tokenize([`<output type="x"\n<reasoning>hi</reasoning>`])).toEqual([
+      { type: "start", name: "output", attributes: { type: "x" } },
+      { type: "start", name: "reasoning", attributes: {} },
+      { type: "text", content: "hi" },
+      { type: "end", name: "reasoning" },
+    ]);
+  });
+
+  it("should treat unterminated tags as text", () => {
+    const text = `<output type="${"x".repeat(40)}`;
+
+    expect(tokenize([text, " more"], { maxTagLength: 20 })).toEqual([
+      { type: "text", content: text + " more" },
+    ]);
+
+    expect(tokenize(["<output type='x' "])).toEqual([
+      { type: "start", name: "output", attributes: { type: "x" } },
+    ]);
+  });
+
+  it("should flush incomplete input at the end", () => {
+    expect(tokenize(["text <outp"])).toEqual([
+      { type: "text", content: "text <outp" },
+    ]);
+    expect(tokenize(["a &amp"])).toEqual([{ type: "text", content: "a &amp" }]);
+    expect(tokenize(["<![CDATA[open"])).toEqual([
+      { type: "text", content: "open" },
+    ]);
+  });
+
+  it("should keep the generator interface", () => {
+    const parser = xmlStreamParser(tags);
+    parser.next();
+
+    const tokens: XMLToken[] = [];
+    for (const chunk of ["<outp", "ut>hi</output>"]) {
+      let result = parser.next(chunk);
+      while (!result.done && result.value) {
+        tokens.push(result.value);
+        result = parser.next();
+      }
+    }
+
+    expect(normalize(tokens)).toEqual([
+      { type: "start", name: "output", attributes: {} },
+      { type: "text", content: "hi" },
+      { type: "end", name: "output" },
+    ]);
+  });
+});
+
+describe("xml tokenizer fuzzing", () => {
+  const documents = [
+    `<think>plan</think><response><reasoning>  a < b && c > d  </reasoning><action_call name='search' id="1">{"q":"</output> & <b>"}</action_call><output type="message">Hello &amp; welcome &#x1F600;</output><finalize/></response>`,
+    `<response>\n<reasoning>\n<![CDATA[<output>not a tag</output> ]]> &lt;&gt;\n</reasoning>\n<output type="json">{"a":[1,2,3],"b":"x>y"}</output>\n<finalize />\n</response>`,
+    `text before <unknown attr="1">kept</unknown> <output type="x"\n<reasoning>recovered</reasoning> trailing &amp`,
+  ];
+
+  it("should produce the same tokens for any chunking", () => {
+    const random = createRandom(42);
+
+    for (const document of documents) {
+      const expected = tokenize([document]);
+
+      for (let i = 0; i < 200; i++) {
+        expect(tokenize(splitRandomly(document, random))).toEqual(expected);
+      }
+
+      // Every single character as its own chunk
+      expect(tokenize(document.split(""))).toEqual(expected);
+    }
+  });
+
+  it("should tokenize generated documents", () => {
+    const random = createRandom(7);
+    const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+    const texts: [string, string][] = [
+      ["plain text", "plain text"],
+      ["  spaced  ", "  spaced  "],
+      ["a < b > c", "a < b > c"],
+      ["&lt;tag&gt;", "<tag>"],
+      ["&amp;&quot;&apos;", "&\"'"],
+      ["<![CDATA[<output>]]>", "<output>"],
+      ["<div>html</div>", "<div>html</div>"],
+      ["\n", "\n"],
+    ];
+
+    for (let i = 0; i < 100; i++) {
+      let source = "";
+      const expected: XMLToken[] = [];
+
+      for (let j = 0; j < 8; j++) {
+        const kind = random();
+
+        if (kind < 0.3) {
+          const [text, decoded] = pick(texts);
+          source += text;
+          expected.push({ type: "text", content: decoded });
+        } else if (kind < 0.5) {
+          source += pick(["<finalize/>", "<finalize />"]);
+          expected.push({
+            type: "self-closing",
+            name: "finalize",
+            attributes: {},
+          });
+        } else if (kind < 0.75) {
+          const quote = pick([`"`, `'`]);
+          const [text, decoded] = pick(texts);
+          source += `<output type=${quote}t>${quote}>${text}</output>`;
+          expected.push(
+            { type: "start", name: "output", attributes: { type: "t>" } },
+            { type: "text", content: decoded },
+            { type: "end", name: "output" }
+          );
+        } else {
+          const json = JSON.stringify({ text: pick(texts)[0], n: j });
+          source += `<action_call name="act">${json}</action_call>`;
+          expected.push(
+            { type: "start", name: "action_call", attributes: { name: "act" } },
+            { type: "text", content: json },
+            { type: "end", name: "action_call" }
+          );
+        }
+      }
+
+      expect(tokenize(splitRandomly(source, random))).toEqual(
+        normalize(expected)
+      );
+    }
+  });
+});
+
+describe("handleStream", () => {
+  async function collect(chunks: string[]) {
+    async function* stream() {
+      for (const chunk of chunks) yield chunk;
+    }
+
+    const elements: Pick<StackElement, "tag" | "content">[] = [];
+    await handleStream(stream(), 0, (el) => {
+      if (el.done) elements.push({ tag: el.tag, content: el.content });
+    });
+
+    return elements.map(({ tag, content }) => ({
+      tag,
+      content: content.join(""),
+    }));
+  }
+
+  it("should handle self-closing tags", async () => {
+    expect(await collect(["<response><final", "ize/></response>"])).toEqual([
+      { tag: "finalize", content: "" },
+      { tag: "response", content: "" },
+    ]);
+  });
+
+  it("should close unclosed elements", async () => {
+    expect(
+      await collect([
+        "<response><reasoning>think</response>",
+        '<action_call name="a">{}',
+      ])
+    ).toEqual([
+      { tag: "reasoning", content: "think" },
+      { tag: "response", content: "" },
+      { tag: "action_call", content: "{}" },
+    ]);
+  });
+
+  it("should ignore stray closing tags", async () => {
+    expect(await collect(["</output><reasoning>ok</reasoning>"])).toEqual([
+      { tag: "reasoning", content: "ok" },
+    ]);
+  });
+});
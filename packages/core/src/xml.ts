@@ -83,9 +83,11 @@ export type NodeVisitor = (node: Node, parse: () => Node[]) => Node;
 export function parseAttributes(text: string): Record<string, string> {
   const attrs: Record<string, string> = {};
   if (text.length === 0) return attrs;
-  const matches = text.matchAll(/(\w+)="([^"]*)"/g);
+  const matches = text.matchAll(
+    /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`\/]+))/g
+  );
   for (const match of matches) {
-    attrs[match[1]] = match[2];
+    attrs[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4]);
   }
   return attrs;
 }
@@ -186,96 +188,333 @@ export function isText(node: Node): node is TextNode {
   return node.type === "text";
 }
 
-type StartTag = {
+export type StartTag = {
   type: "start";
   name: string;
   attributes: Record<string, string>;
 };
 
-type EndTag = {
+export type EndTag = {
   type: "end";
   name: string;
 };
 
-type TextContent = {
+export type TextContent = {
   type: "text";
   content: string;
 };
 
-type SelfClosingTag = {
+export type SelfClosingTag = {
   type: "self-closing";
   name: string;
   attributes: Record<string, string>;
 };
 
-type XMLToken = StartTag | EndTag | TextContent | SelfClosingTag;
+export type XMLToken = StartTag | EndTag | TextContent | SelfClosingTag;
 
-export function* xmlStreamParser(
-  parseTags: Set<string>
-): Generator<XMLToken | void, void, string> {
-  let buffer = "";
-  let textContent = "";
+const namedEntities: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
 
-  while (true) {
-    const chunk = yield;
-    if (!chunk) continue;
+// Longest entity we wait for when it is split across chunks, e.g. &#x10FFFF;
+const MAX_ENTITY_LENGTH = 10;
+
+const CDATA_START = "<![CDATA[";
+const CDATA_END = "]]>";
 
-    buffer += chunk;
+/**
+ * Decodes the predefined XML entities and numeric character references.
+ * Unknown entities are left untouched.
+ * @param text - The text to decode
+ * @returns The decoded text
+ */
+export function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text;
 
-    while (buffer.length > 0) {
-      const tagStart = buffer.indexOf("<");
+  return text.replace(
+    /&(#[xX][0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g,
+    (match, entity: string) => {
+      if (entity[0] !== "#") return namedEntities[entity] ?? match;
 
-      if (tagStart > 0) {
-        const text = buffer.slice(0, tagStart).trim();
-        textContent += text;
-        buffer = buffer.slice(tagStart);
-        break;
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+  );
+}
+
+/**
+ * Options for the streaming XML tokenizer.
+ */
+export type XmlTokenizerOptions = {
+  /**
+   * Tags whose content is kept as is until their own closing tag, so JSON
+   * or markup inside them is never parsed as tags or entities
+   */
+  rawTags?: Set<string>;
+  /** Length after which an unterminated tag is treated as text */
+  maxTagLength?: number;
+};
+
+/**
+ * Incremental tokenizer returned by createXmlTokenizer.
+ */
+export type XmlTokenizer = {
+  /**
+   * Tokenizes a chunk, keeping incomplete tags or entities for the next one
+   * @param chunk - The next chunk of text
+   * @returns The tokens completed by the chunk
+   */
+  write(chunk: string): XMLToken[];
+
+  /**
+   * Flushes the remaining input, recovering unterminated tags
+   * @returns The remaining tokens
+   */
+  end(): XMLToken[];
+};
+
+type Markup =
+  | { type: "token"; token: XMLToken; end: number }
+  | { type: "text"; content: string; end: number };
+
+const NAME_REGEX = /^[A-Za-z_][\w:.-]*/;
+
+/**
+ * Creates an incremental tokenizer for the agent XML dialect. Only tags in
+ * `parseTags` are structural, any other markup is emitted as text. Text is
+ * never trimmed, entities are decoded and CDATA sections are emitted as is.
+ * @param parseTags - Names of the tags to emit tokens for
+ * @param options - Tokenizer options
+ * @returns A new XmlTokenizer instance
+ */
+export function createXmlTokenizer(
+  parseTags: Set<string>,
+  { rawTags = new Set(), maxTagLength = 1024 }: XmlTokenizerOptions = {}
+): XmlTokenizer {
+  let buffer = "";
+  let raw: string | undefined;
+
+  function isTagPrefix(name: string) {
+    if (raw) return raw.startsWith(name);
+    for (const tag of parseTags) {
+      if (tag.startsWith(name)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Reads the markup starting at `pos`, returning undefined when more input
+   * is needed to decide.
+   */
+  function readMarkup(pos: number, final: boolean): Markup | undefined {
+    const rest = raw ? "" : buffer.slice(pos, pos + CDATA_START.length);
+
+    if (rest === CDATA_START) {
+      const close = buffer.indexOf(CDATA_END, pos + CDATA_START.length);
+      if (close === -1) {
+        if (!final) return undefined;
+        // Unterminated CDATA section, keep its content
+        return {
+          type: "text",
+          content: buffer.slice(pos + CDATA_START.length),
+          end: buffer.length,
+        };
       }
 
-      if (tagStart === -1) {
-        textContent += buffer;
-        buffer = "";
-        break;
+      return {
+        type: "text",
+        content: buffer.slice(pos + CDATA_START.length, close),
+        end: close + CDATA_END.length,
+      };
+    }
+
+    if (
+      !final &&
+      !raw &&
+      rest.length < CDATA_START.length &&
+      CDATA_START.startsWith(rest)
+    ) {
+      return undefined;
+    }
+
+    const notMarkup: Markup = { type: "text", content: "<", end: pos + 1 };
+
+    let i = pos + 1;
+    const closing = buffer[i] === "/";
+    if (closing) i++;
+
+    // Inside a raw element only its own closing tag ends the text
+    if (raw && !closing) {
+      if (!final && i === buffer.length) return undefined;
+      return notMarkup;
+    }
+
+    const name = NAME_REGEX.exec(buffer.slice(i))?.[0] ?? "";
+    const nameEnd = i + name.length;
+
+    if (nameEnd === buffer.length) {
+      // The name may continue in the next chunk
+      return !final && isTagPrefix(name) ? undefined : notMarkup;
+    }
+
+    if (!name || !parseTags.has(name) || (raw && name !== raw)) {
+      return notMarkup;
+    }
+
+    let quote: string | undefined;
+    let end = -1;
+
+    for (let j = nameEnd; j < buffer.length; j++) {
+      const char = buffer[j];
+
+      if (quote) {
+        if (char === quote) quote = undefined;
+        continue;
       }
 
-      const tagEnd = buffer.indexOf(">", tagStart);
-      if (tagEnd === -1) {
-        // textContent += buffer;
-        // buffer = "";
+      if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === ">") {
+        end = j + 1;
+        break;
+      } else if (char === "<") {
+        // Malformed tag missing its ">", end it before the next tag
+        end = j;
         break;
       }
+    }
 
-      let tagContent = buffer.slice(tagStart + 1, tagEnd);
-      const isClosingTag = tagContent.startsWith("/");
-      const tagName = isClosingTag
-        ? tagContent.slice(1).trim().split(" ")[0]
-        : tagContent.trim().split(" ")[0];
-
-      if (parseTags.has(tagName)) {
-        // Emit accumulated text if any
-        if (textContent) {
-          yield { type: "text", content: textContent };
-          textContent = "";
-        }
+    if (end === -1) {
+      if (!final && buffer.length - pos <= maxTagLength) return undefined;
+      // Unterminated tag, likely an unclosed quote
+      if (!final) return notMarkup;
+      end = buffer.length;
+    }
+
+    let body = buffer.slice(nameEnd, end).replace(/>$/, "").trimEnd();
+    const selfClosing = !closing && body.endsWith("/");
+    if (selfClosing) body = body.slice(0, -1);
 
-        if (isClosingTag) {
-          yield { type: "end", name: tagName };
-        } else {
-          const attributes = parseAttributes(tagContent.slice(tagName.length));
-          yield { type: "start", name: tagName, attributes };
+    if (closing) {
+      if (raw === name) raw = undefined;
+      return { type: "token", token: { type: "end", name }, end };
+    }
+
+    const attributes = parseAttributes(body);
+
+    if (selfClosing) {
+      return {
+        type: "token",
+        token: { type: "self-closing", name, attributes },
+        end,
+      };
+    }
+
+    if (rawTags.has(name)) raw = name;
+
+    return {
+      type: "token",
+      token: { type: "start", name, attributes },
+      end,
+    };
+  }
+
+  function tokenize(final: boolean): XMLToken[] {
+    const tokens: XMLToken[] = [];
+    let text = "";
+    let pos = 0;
+
+    function flushText() {
+      if (!text) return;
+      tokens.push({ type: "text", content: text });
+      text = "";
+    }
+
+    while (pos < buffer.length) {
+      const tagStart = buffer.indexOf("<", pos);
+      let textEnd = tagStart === -1 ? buffer.length : tagStart;
+
+      if (tagStart === -1 && !final && !raw) {
+        // Keep a trailing entity that may be completed by the next chunk
+        const amp = buffer.lastIndexOf("&");
+        if (
+          amp >= pos &&
+          !buffer.includes(";", amp) &&
+          buffer.length - amp < MAX_ENTITY_LENGTH
+        ) {
+          textEnd = amp;
         }
+      }
+
+      if (textEnd > pos) {
+        const content = buffer.slice(pos, textEnd);
+        text += raw ? content : decodeEntities(content);
+        pos = textEnd;
+        continue;
+      }
+
+      if (tagStart === -1) break;
+
+      const markup = readMarkup(pos, final);
+      if (!markup) break;
+
+      if (markup.type === "text") {
+        text += markup.content;
       } else {
-        // Not a tag we care about, treat as text
-        textContent += buffer.slice(0, tagEnd + 1);
+        flushText();
+        tokens.push(markup.token);
       }
 
-      buffer = buffer.slice(tagEnd + 1);
+      pos = markup.end;
     }
 
-    // Emit accumulated text if buffer is empty
-    if (textContent) {
-      yield { type: "text", content: textContent };
-      textContent = "";
+    buffer = buffer.slice(pos);
+    flushText();
+
+    return tokens;
+  }
+
+  return {
+    write(chunk) {
+      buffer += chunk;
+      return tokenize(false);
+    },
+
+    end() {
+      const tokens = tokenize(true);
+      buffer = "";
+      raw = undefined;
+      return tokens;
+    },
+  };
+}
+
+/**
+ * Streaming XML parser, yields tokens for each chunk sent to it.
+ * Prefer createXmlTokenizer, which can flush the input once the stream ends.
+ * @param parseTags - Names of the tags to emit tokens for
+ * @param options - Tokenizer options
+ */
+export function* xmlStreamParser(
+  parseTags: Set<string>,
+  options?: XmlTokenizerOptions
+): Generator<XMLToken | void, void, string> {
+  const tokenizer = createXmlTokenizer(parseTags, options);
+
+  while (true) {
+    const chunk = yield;
+    if (!chunk) continue;
+
+    for (const token of tokenizer.write(chunk)) {
+      yield token;
     }
   }
 }
@@ -21,5 +21,6 @@ export default defineConfig({
     "telegram",
     "@tavily/core",
     "ollama",
+    "bun:sqlite",
   ],
 });